@@ -0,0 +1,333 @@
+import { type WarriorData, type Instruction, DEFAULT_OPTIONS, Opcode, Modifier, AddressMode, OPCODE_NAMES } from '../types.js';
+import { decodeOpcode } from '../constants.js';
+import { Simulator } from '../simulator/index.js';
+
+export type Strategy = 'imp' | 'stone' | 'scanner' | 'oneshot' | 'paper' | 'clear' | 'pspacer' | 'hybrid' | 'unknown';
+
+/** Strategies that get a score of their own; 'hybrid' and 'unknown' are only ever the verdict. */
+export type ScoredStrategy = Exclude<Strategy, 'hybrid' | 'unknown'>;
+
+export interface ClassifyOptions {
+  /** Core size the warrior was assembled for (default 8000) */
+  coreSize?: number;
+  /** Process limit of the solo run (default 8000) */
+  maxProcesses?: number;
+  /** Length of the solo run in cycles (default 2000) */
+  cycles?: number;
+}
+
+/** One observation that raised a strategy's score. */
+export interface Evidence {
+  strategy: ScoredStrategy;
+  /** How much this observation added to the score */
+  weight: number;
+  text: string;
+}
+
+/** Features read from the instructions without running them. */
+export interface StaticFeatures {
+  length: number;
+  /** Count of each opcode, by name */
+  opcodes: Record<string, number>;
+  splCount: number;
+  /** LDP and STP instructions */
+  pSpaceOps: number;
+  /** Step of each imp (`MOV.I` copying itself forward), e.g. 1 for `MOV.I $0, $1` */
+  impSteps: number[];
+  /** Immediate A-values of ADD/SUB instructions, signed */
+  stepConstants: number[];
+  /** SEQ, SNE and CMP instructions */
+  compares: number;
+  /** JMZ and JMN instructions */
+  zeroTests: number;
+  /** MOVs of a fixed cell through an incrementing or decrementing B-pointer */
+  clearMoves: number;
+  /** MOVs whose A-operand walks through memory, as copy loops do */
+  copyMoves: number;
+}
+
+/** Features observed during the solo run. */
+export interface DynamicFeatures {
+  cycles: number;
+  survived: boolean;
+  maxProcesses: number;
+  finalProcesses: number;
+  /** Distinct cells outside the warrior's body that were written */
+  cellsWritten: number;
+  /** Most frequent distance between successive outside writes of the same instruction, signed */
+  dominantStride: number | null;
+  /** Fraction of those successive writes that were `dominantStride` apart */
+  strideRegularity: number;
+  /** Fraction of written outside cells never executed that sit next to another such cell */
+  contiguity: number;
+  /** Fraction of written outside cells that were later executed */
+  writtenExecuted: number;
+  /** Fraction of the body's instructions that were copied outside it */
+  copiedFraction: number;
+  /** Distinct body instructions whose copies outside the body were later executed */
+  copiesRun: number;
+  /** Fraction of executed instructions that were imps */
+  impExecution: number;
+  /** Fraction of executed instructions that were SEQ/SNE/CMP/JMZ/JMN */
+  testExecution: number;
+  pSpaceWrites: number;
+}
+
+export interface Classification {
+  strategy: Strategy;
+  /** 0 to 1; lower when another strategy scores close to the winner */
+  confidence: number;
+  /** The two strategies combined when `strategy` is 'hybrid' */
+  components: ScoredStrategy[];
+  scores: Record<ScoredStrategy, number>;
+  evidence: Evidence[];
+  features: { static: StaticFeatures; dynamic: DynamicFeatures };
+}
+
+const STRATEGIES: ScoredStrategy[] = ['imp', 'stone', 'scanner', 'oneshot', 'paper', 'clear', 'pspacer'];
+const STEPPING_MODES = new Set([AddressMode.A_PREDECR, AddressMode.B_PREDECR,
+  AddressMode.A_POSTINC, AddressMode.B_POSTINC]);
+const TESTS = new Set([Opcode.SEQ, Opcode.SNE, Opcode.CMP, Opcode.JMZ, Opcode.JMN]);
+/** Below this score the warrior is 'unknown' */
+const MIN_SCORE = 0.3;
+/** A second strategy scoring at least this much makes the warrior a hybrid */
+const HYBRID_SCORE = 0.5;
+
+/**
+ * Guess a warrior's strategy from its code and a short solo run. Static
+ * features (opcode mix, SPL count, P-space use, imp instructions, step
+ * constants) and the run's process growth and write pattern each add to
+ * per-strategy scores; the best score wins. A second, unrelated strategy
+ * scoring at least 0.5 makes the warrior a hybrid. This is a heuristic for
+ * tagging, not a proof of behaviour.
+ */
+export function classifyWarrior(warrior: WarriorData, options: ClassifyOptions = {}): Classification {
+  const coreSize = options.coreSize ?? DEFAULT_OPTIONS.coreSize;
+  const staticFeatures = staticFeaturesOf(warrior, coreSize);
+  const dynamic = soloRun(warrior, coreSize, options.maxProcesses ?? DEFAULT_OPTIONS.maxProcesses, options.cycles ?? 2000);
+
+  const evidence: Evidence[] = [];
+  const scores = Object.fromEntries(STRATEGIES.map(s => [s, 0])) as Record<ScoredStrategy, number>;
+  const add = (strategy: ScoredStrategy, weight: number, text: string): void => {
+    scores[strategy] = Math.min(1, Math.round((scores[strategy] + weight) * 100) / 100);
+    evidence.push({ strategy, weight, text });
+  };
+  const percent = (fraction: number): string => `${Math.round(fraction * 100)}%`;
+  const s = staticFeatures;
+  const d = dynamic;
+
+  if (s.impSteps.length > 0) {
+    const ring = s.impSteps.some(step => Math.abs(step) > 1);
+    add('imp', 0.5, `${ring ? 'imp-ring ' : ''}imp instruction with step ${s.impSteps.join(', ')}`);
+    if (d.impExecution >= 0.3) add('imp', 0.3, `${percent(d.impExecution)} of executed instructions were imps`);
+    if (ring && s.splCount > 0) add('imp', 0.2, `${s.splCount} SPL to launch imp processes`);
+  }
+
+  const steps = s.stepConstants.filter(step => Math.abs(step) > 1);
+  if (steps.length > 0 && s.compares + s.zeroTests === 0) add('stone', 0.3, `step constant ${steps.join(', ')} without tests`);
+  if (d.dominantStride !== null && Math.abs(d.dominantStride) > 1 && d.strideRegularity >= 0.5 && d.contiguity < 0.5 && d.cellsWritten >= 5) {
+    add('stone', 0.5, `${d.cellsWritten} cells bombed ${d.dominantStride} apart (${percent(d.strideRegularity)} of writes)`);
+    if (s.length <= 10) add('stone', 0.2, `short body of ${s.length} instructions`);
+  }
+
+  if (s.compares > 0) add('scanner', 0.4, `${s.compares} SEQ/SNE/CMP`);
+  else if (s.zeroTests > 0 && steps.length > 0) add('scanner', 0.3, `${s.zeroTests} JMZ/JMN with step constant ${steps.join(', ')}`);
+  if (d.testExecution >= 0.2) add('scanner', 0.4, `${percent(d.testExecution)} of executed instructions were tests`);
+
+  // Bombs that are copies of the body get run now and then; a paper's copies make up much of what it runs.
+  // A replicator's copies are contiguous too, but they are copies of itself, so they don't count as a clear.
+  const copiesRan = d.copiesRun >= 3 && d.writtenExecuted >= 0.1;
+  const replicates = copiesRan || d.copiedFraction >= 0.5;
+  if (s.clearMoves > 0) add('clear', 0.3, `${s.clearMoves} MOV through a stepping pointer`);
+  const clearing = d.contiguity >= 0.8 && d.cellsWritten >= 10 && !replicates;
+  if (clearing) add('clear', 0.5, `${d.cellsWritten} cells overwritten in a block`);
+
+  // A one-shot keeps scanning or clearing; a quickscan's tests run only once before the main strategy takes over
+  if (scores.scanner >= 0.4 && scores.clear >= 0.3 && (clearing || d.testExecution >= 0.2)) {
+    // Outscore both parts so a one-shot isn't reported as a plain scanner or clear
+    add('oneshot', Math.min(1, Math.max(scores.scanner, scores.clear) + 0.1), 'scans, then clears');
+  }
+
+  if (s.copyMoves > 0 && s.splCount > 0) add('paper', 0.2, `${s.copyMoves} copy MOV with ${s.splCount} SPL`);
+  // A paper inside a larger warrior copies only a small part of the body, so copies that run count most
+  if (copiesRan) {
+    add('paper', 0.4, `copies of ${d.copiesRun} instructions ran outside the body (${percent(d.writtenExecuted)} of written cells run)`);
+  }
+  if (d.copiedFraction >= 0.5 && s.length >= 2) add('paper', 0.3, `${percent(d.copiedFraction)} of the body copied elsewhere`);
+  if (replicates && d.maxProcesses >= 4) add('paper', 0.3, `grew to ${d.maxProcesses} processes`);
+
+  if (s.pSpaceOps > 0) add('pspacer', 0.6, `${s.pSpaceOps} LDP/STP`);
+  if (d.pSpaceWrites > 0) add('pspacer', 0.3, `${d.pSpaceWrites} P-space writes`);
+
+  return {
+    ...verdict(scores),
+    scores,
+    evidence,
+    features: { static: staticFeatures, dynamic },
+  };
+}
+
+function verdict(scores: Record<ScoredStrategy, number>): Pick<Classification, 'strategy' | 'confidence' | 'components'> {
+  const round = (value: number): number => Math.round(value * 100) / 100;
+  // A p-spacer switches between other strategies, so it wins whatever else it contains
+  if (scores.pspacer >= 0.6) return { strategy: 'pspacer', confidence: round(scores.pspacer), components: [] };
+
+  const ranked = [...STRATEGIES].sort((a, b) => scores[b] - scores[a]);
+  const [first] = ranked;
+  if (scores[first] < MIN_SCORE) return { strategy: 'unknown', confidence: round(1 - scores[first]), components: [] };
+
+  // Parts of a one-shot don't make it a hybrid
+  const rest = ranked.slice(1).filter(s => !(first === 'oneshot' && (s === 'scanner' || s === 'clear')) &&
+    !((s === 'oneshot') && (first === 'scanner' || first === 'clear')));
+  const second = rest[0];
+  if (scores[second] >= HYBRID_SCORE) {
+    const third = rest[1] ? scores[rest[1]] : 0;
+    return { strategy: 'hybrid', confidence: round((scores[first] + scores[second]) / 2 - third / 2), components: [first, second] };
+  }
+  return { strategy: first, confidence: round(scores[first] - scores[second] / 2), components: [] };
+}
+
+function staticFeaturesOf(warrior: WarriorData, coreSize: number): StaticFeatures {
+  const signed = (v: number): number => v > coreSize / 2 ? v - coreSize : v;
+  const features: StaticFeatures = {
+    length: warrior.instructions.length, opcodes: {}, splCount: 0, pSpaceOps: 0, impSteps: [],
+    stepConstants: [], compares: 0, zeroTests: 0, clearMoves: 0, copyMoves: 0,
+  };
+  for (const inst of warrior.instructions) {
+    const { opcode } = decodeOpcode(inst.opcode);
+    features.opcodes[OPCODE_NAMES[opcode]] = (features.opcodes[OPCODE_NAMES[opcode]] ?? 0) + 1;
+    const impStep = impStepOf(decodeOpcode(inst.opcode), inst);
+    if (impStep !== null) features.impSteps.push(signed(impStep));
+    switch (opcode) {
+      case Opcode.SPL: features.splCount++; break;
+      case Opcode.LDP: case Opcode.STP: features.pSpaceOps++; break;
+      case Opcode.SEQ: case Opcode.SNE: case Opcode.CMP: features.compares++; break;
+      case Opcode.JMZ: case Opcode.JMN: features.zeroTests++; break;
+      case Opcode.ADD: case Opcode.SUB:
+        if (inst.aMode === AddressMode.IMMEDIATE) features.stepConstants.push(signed(inst.aValue));
+        break;
+      case Opcode.MOV:
+        if (impStep !== null) break;
+        if (STEPPING_MODES.has(inst.aMode)) features.copyMoves++;
+        else if (STEPPING_MODES.has(inst.bMode)) features.clearMoves++;
+        break;
+    }
+  }
+  return features;
+}
+
+/** The step of an instruction that copies itself `step` cells ahead and is then run there, or null. */
+function impStepOf({ opcode, modifier }: { opcode: Opcode; modifier: Modifier }, inst: Omit<Instruction, 'opcode'>): number | null {
+  if (opcode !== Opcode.MOV || modifier !== Modifier.I || inst.bMode !== AddressMode.DIRECT || inst.bValue === 0) return null;
+  const copiesSelf = inst.aMode === AddressMode.IMMEDIATE || (inst.aMode === AddressMode.DIRECT && inst.aValue === 0);
+  return copiesSelf ? inst.bValue : null;
+}
+
+function soloRun(warrior: WarriorData, coreSize: number, maxProcesses: number, cycles: number): DynamicFeatures {
+  const sim = new Simulator({
+    coreSize, maxProcesses, maxCycles: cycles, warriors: 1,
+    maxLength: Math.max(DEFAULT_OPTIONS.maxLength, warrior.instructions.length),
+    minSeparation: Math.min(DEFAULT_OPTIONS.minSeparation, coreSize),
+    seed: 1,
+  });
+  sim.loadWarriors([warrior]);
+  sim.setupRound();
+  const length = warrior.instructions.length;
+  const body = warrior.instructions;
+  const origin = sim.getWarriors()[0].position;
+  const inBody = (address: number): boolean => (address - origin + coreSize) % coreSize < length;
+  const signed = (v: number): number => {
+    const n = ((v % coreSize) + coreSize) % coreSize;
+    return n > coreSize / 2 ? n - coreSize : n;
+  };
+
+  const written = new Set<number>();
+  const executedWritten = new Set<number>();
+  const copied = new Set<number>();
+  /** Outside cells currently holding a copy of a body instruction, by body index */
+  const copies = new Map<number, number>();
+  const copiesRun = new Set<number>();
+  const strides = new Map<number, number>();
+  let strideCount = 0;
+  const lastWrite = new Map<number, number>();
+  let executed = 0;
+  let imps = 0;
+  let tests = 0;
+  let pSpaceWrites = 0;
+  let maxTasks = 1;
+  let tasks = 1;
+  let survived = true;
+
+  for (;;) {
+    const { trace, roundResult } = sim.stepTraced();
+    if (trace) {
+      executed++;
+      if (written.has(trace.pc)) executedWritten.add(trace.pc);
+      const copyIndex = copies.get(trace.pc);
+      if (copyIndex !== undefined) copiesRun.add(copyIndex);
+      const inst = trace.instruction;
+      if (TESTS.has(inst.opcode)) tests++;
+      if (impStepOf(inst, inst) !== null) imps++;
+      for (const write of trace.writes) {
+        if (inBody(write.address)) continue;
+        written.add(write.address);
+        const index = body.findIndex(b => sameInstruction(b, write.after));
+        if (index >= 0) {
+          copied.add(index);
+          copies.set(write.address, index);
+        } else {
+          copies.delete(write.address);
+        }
+        // Strides are tracked per instruction so a bomber's pattern survives other processes writing in between
+        const last = lastWrite.get(trace.pc);
+        if (last !== undefined && write.address !== last) {
+          const stride = signed(write.address - last);
+          strides.set(stride, (strides.get(stride) ?? 0) + 1);
+          strideCount++;
+        }
+        lastWrite.set(trace.pc, write.address);
+      }
+      pSpaceWrites += trace.pSpaceWrites.length;
+      tasks = trace.process.tasksAfter;
+      maxTasks = Math.max(maxTasks, tasks);
+    }
+    if (roundResult) {
+      survived = roundResult.survived[0];
+      break;
+    }
+  }
+
+  const bombed = new Set([...written].filter(address => !executedWritten.has(address)));
+  let adjacent = 0;
+  for (const address of bombed) {
+    if (bombed.has((address + 1) % coreSize) || bombed.has((address + coreSize - 1) % coreSize)) adjacent++;
+  }
+  let dominantStride: number | null = null;
+  let dominantCount = 0;
+  for (const [stride, count] of strides) {
+    if (count > dominantCount) {
+      dominantStride = stride;
+      dominantCount = count;
+    }
+  }
+  return {
+    cycles: executed,
+    survived,
+    maxProcesses: maxTasks,
+    finalProcesses: survived ? tasks : 0,
+    cellsWritten: written.size,
+    dominantStride,
+    strideRegularity: strideCount > 0 ? dominantCount / strideCount : 0,
+    contiguity: bombed.size > 0 ? adjacent / bombed.size : 0,
+    writtenExecuted: written.size > 0 ? executedWritten.size / written.size : 0,
+    copiedFraction: length > 0 ? copied.size / length : 0,
+    copiesRun: copiesRun.size,
+    impExecution: executed > 0 ? imps / executed : 0,
+    testExecution: executed > 0 ? tests / executed : 0,
+    pSpaceWrites,
+  };
+}
+
+function sameInstruction(a: Instruction, b: Instruction): boolean {
+  return a.opcode === b.opcode && a.aMode === b.aMode && a.bMode === b.bMode && a.aValue === b.aValue && a.bValue === b.bValue;
+}
@@ -0,0 +1,65 @@
+import { type WarriorData, DEFAULT_OPTIONS, Opcode, AddressMode, OPCODE_NAMES, MODIFIER_NAMES, ADDRESS_MODE_SYMBOLS } from '../types.js';
+import { decodeOpcode } from '../constants.js';
+
+export interface DecompileOptions {
+  /** Core size the warrior was assembled for (default 8000) */
+  coreSize?: number;
+}
+
+const JUMPS = new Set([Opcode.JMP, Opcode.JMZ, Opcode.JMN, Opcode.DJN, Opcode.SPL]);
+
+/**
+ * Turn a warrior back into Redcode with generated labels: `start` at the
+ * entry point and `locN` at every jump/split target and every cell used as
+ * a pointer by an indirect addressing mode. Fields that point at a labelled
+ * cell are written as that label. Assembling the result gives back the same
+ * WarriorData except for `warnings`: the decompiled source has no undefined
+ * symbols or other problems of the original, so only a missing ;assert
+ * warning is reproduced.
+ */
+export function decompileWarrior(warrior: WarriorData, options: DecompileOptions = {}): string {
+  const coreSize = options.coreSize ?? DEFAULT_OPTIONS.coreSize;
+  const length = warrior.instructions.length;
+  const denorm = (v: number): number => v > coreSize / 2 ? v - coreSize : v;
+  const inBody = (target: number): boolean => target >= 0 && target < length;
+
+  const labels = new Map<number, string>();
+  if (inBody(warrior.startOffset)) labels.set(warrior.startOffset, 'start');
+  warrior.instructions.forEach((inst, i) => {
+    const { opcode } = decodeOpcode(inst.opcode);
+    const fields: [AddressMode, number, boolean][] = [
+      [inst.aMode, inst.aValue, JUMPS.has(opcode)],
+      [inst.bMode, inst.bValue, false],
+    ];
+    for (const [mode, value, isJumpTarget] of fields) {
+      const target = i + denorm(value);
+      const isPointer = mode !== AddressMode.IMMEDIATE && mode !== AddressMode.DIRECT;
+      if ((isPointer || (isJumpTarget && mode !== AddressMode.IMMEDIATE)) && inBody(target) && !labels.has(target)) {
+        labels.set(target, `loc${target}`);
+      }
+    }
+  });
+
+  const operand = (i: number, mode: AddressMode, value: number): string => {
+    const offset = denorm(value);
+    const label = mode !== AddressMode.IMMEDIATE ? labels.get(i + offset) : undefined;
+    return `${ADDRESS_MODE_SYMBOLS[mode]}${label ?? offset}`;
+  };
+  const labelWidth = Math.max(0, ...[...labels.values()].map(l => l.length));
+  const row = (label: string, op: string, operands: string): string =>
+    `${label.padEnd(labelWidth)} ${op.padEnd(6)} ${operands}`.substring(labelWidth > 0 ? 0 : 1);
+
+  const out = [';redcode-94', `;name ${warrior.name}`, `;author ${warrior.author}`];
+  for (const line of warrior.strategy ? warrior.strategy.split('\n') : []) out.push(`;strategy ${line}`);
+  // The assembler warns about a missing ;assert, so only write one if the original had it
+  if (!warrior.warnings?.includes('Missing ASSERT')) out.push(`;assert CORESIZE == ${coreSize}`);
+  out.push('');
+  if (warrior.pin !== null) out.push(row('', 'PIN', String(warrior.pin)));
+  out.push(row('', 'ORG', labels.get(warrior.startOffset) ?? String(denorm(warrior.startOffset))));
+  warrior.instructions.forEach((inst, i) => {
+    const { opcode, modifier } = decodeOpcode(inst.opcode);
+    const code = `${OPCODE_NAMES[opcode]}.${MODIFIER_NAMES[modifier]}`;
+    out.push(row(labels.get(i) ?? '', code, `${operand(i, inst.aMode, inst.aValue)}, ${operand(i, inst.bMode, inst.bValue)}`));
+  });
+  return out.join('\n') + '\n';
+}
@@ -0,0 +1,53 @@
+/**
+ * Stable identifiers for assembler diagnostics. Names follow pMARS's error
+ * constants (asm.c) where one exists; the others use the same style.
+ */
+export type DiagnosticCode =
+  /** Warrior has more instructions than maxLength */
+  | 'LINERR'
+  /** ORG/END start offset is outside the warrior */
+  | 'OFSERR'
+  /** No ;assert directive */
+  | 'NASERR'
+  /** FOR block without a closing ROF */
+  | 'ROFERR'
+  /** ROF without a matching FOR */
+  | 'FORERR'
+  /** END offset ignored because ORG is set */
+  | 'DOEERR'
+  /** ;assert expression evaluated to zero */
+  | 'ASSERR'
+  /** EQU without a label */
+  | 'EQUERR'
+  /** Label defined more than once */
+  | 'DLBERR'
+  /** Symbol is not a label, EQU or predefined constant */
+  | 'UNDERR'
+  /** EQU refers to itself */
+  | 'RECERR'
+  /** Unknown opcode */
+  | 'OPCERR'
+  /** Unknown modifier */
+  | 'MODERR'
+  /** Required operand is missing */
+  | 'OPRERR'
+  /** Operand expression cannot be evaluated */
+  | 'EXPERR'
+  /** Operand expression overflowed */
+  | 'OVFERR'
+  /** Source contains no instructions */
+  | 'EMPERR'
+  /** ;include file is missing, unreadable or includes itself */
+  | 'INCERR'
+  /** Not allowed in ICWS'88 mode */
+  | 'M88ERR'
+  /** Malformed load-file line */
+  | 'SYNERR';
+
+/** A second source location involved in a diagnostic. */
+export interface RelatedLocation {
+  line: number;
+  file?: string;
+  column?: number;
+  text: string;
+}
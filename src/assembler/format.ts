@@ -0,0 +1,169 @@
+import { OPCODE_NAMES, MODIFIER_NAMES, ADDRESS_MODE_SYMBOLS, Opcode, AddressMode } from '../types.js';
+import { defaultModifier } from './index.js';
+import { tokenize } from './tokenizer.js';
+
+export interface FormatOptions {
+  /** Case of opcodes, modifiers and pseudo-ops (default 'upper'); labels keep their case */
+  case?: 'upper' | 'lower';
+  /** Write the assembler's default modifier on instructions that have none (default false) */
+  explicitModifiers?: boolean;
+}
+
+const PSEUDO_OPS = ['EQU', 'FOR', 'ROF', 'END', 'ORG', 'PIN'];
+
+/** One formatted statement, before column alignment. */
+interface Row {
+  labels: string;
+  op: string;
+  operands: string;
+  comment: string;
+}
+
+/**
+ * Rewrite Redcode in a canonical layout: labels in one column, opcodes and
+ * operands in the next, comments aligned after the longest statement.
+ * Whitespace inside expressions is collapsed and operands are separated by
+ * ", ". Full-line comments (including ;name, ;assert and other metadata),
+ * blank lines, lines joined with `\` and anything after END are kept as written.
+ */
+export function formatRedcode(source: string, options: FormatOptions = {}): string {
+  const toCase = (text: string): string => options.case === 'lower' ? text.toLowerCase() : text.toUpperCase();
+  const lines = source.split('\n');
+  const modeEqus = equsWithModes(lines);
+  const macros = multiLineEqus(lines);
+  const out: (string | Row)[] = [];
+  let verbatim = false;
+  let continued = false;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    const commentIdx = line.indexOf(';');
+    const code = commentIdx >= 0 ? line.substring(0, commentIdx) : line;
+    if (verbatim || continued || code.trimEnd().endsWith('\\')) {
+      continued = code.trimEnd().endsWith('\\');
+      out.push(line.trimEnd());
+      continue;
+    }
+    if (trimmed === '' || trimmed.startsWith(';')) {
+      out.push(trimmed);
+      continue;
+    }
+    const comment = commentIdx >= 0 ? line.substring(commentIdx).trimEnd() : '';
+
+    const tokens = tokenize(code);
+    const opIdx = tokens.findIndex(t => isKeyword(t.text));
+    if (opIdx < 0) {
+      // Labels alone, or the name of a multi-line EQU standing in for its instructions
+      const words = code.trim().split(/\s+/);
+      const isMacro = words.length === 1 && macros.has(words[0].toUpperCase());
+      out.push({ labels: isMacro ? '' : words.join(' '), op: isMacro ? words[0] : '', operands: '', comment });
+      continue;
+    }
+
+    const labels = code.substring(0, tokens[opIdx].start).trim().split(/\s+/).filter(Boolean).join(' ');
+    let [opcode, modifier] = tokens[opIdx].text.split('.');
+    let restStart = tokens[opIdx].end;
+    // Modifier written apart from the opcode: "MOV .I" or "MOV . I"
+    const next = tokens[opIdx + 1];
+    if (modifier === undefined && next?.text.startsWith('.')) {
+      modifier = next.text.substring(1);
+      restStart = next.end;
+      if (modifier === '' && tokens[opIdx + 2]) {
+        modifier = tokens[opIdx + 2].text;
+        restStart = tokens[opIdx + 2].end;
+      }
+    }
+    const rest = code.substring(restStart).trim().replace(/\s+/g, ' ');
+    const upperOp = opcode.toUpperCase();
+
+    if (PSEUDO_OPS.includes(upperOp)) {
+      out.push({ labels, op: toCase(opcode), operands: rest, comment });
+      if (upperOp === 'END') verbatim = true;
+      continue;
+    }
+
+    const operands = splitOperands(rest).map(op => op.trim().replace(/^([#$@<>*{}])\s+/, '$1'));
+    if (!modifier && options.explicitModifiers && !operands.some(op => modeEqus.has(leadingWord(op)))) {
+      modifier = MODIFIER_NAMES[defaultModifierFor(upperOp, operands)];
+    }
+    out.push({ labels, op: toCase(modifier ? `${opcode}.${modifier}` : opcode), operands: operands.join(', '), comment });
+  }
+
+  const rows = out.filter((row): row is Row => typeof row !== 'string');
+  const labelWidth = Math.max(0, ...rows.map(r => r.labels.length));
+  const opWidth = Math.max(0, ...rows.map(r => r.op.length));
+  const statement = (row: Row): string => {
+    const labelPart = labelWidth > 0 ? row.labels.padEnd(labelWidth) + ' ' : '';
+    return `${labelPart}${row.op.padEnd(opWidth)} ${row.operands}`.trimEnd();
+  };
+  const commentColumn = Math.max(0, ...rows.map(r => statement(r).length)) + 2;
+  return out.map(row => {
+    if (typeof row === 'string') return row;
+    const text = statement(row);
+    return row.comment ? `${text.padEnd(commentColumn)}${row.comment}` : text;
+  }).join('\n');
+}
+
+function isKeyword(token: string): boolean {
+  const upper = token.toUpperCase().split('.')[0];
+  return (OPCODE_NAMES as readonly string[]).includes(upper) || PSEUDO_OPS.includes(upper);
+}
+
+function leadingWord(operand: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*/.exec(operand)?.[0].toUpperCase() ?? '';
+}
+
+/** Split operands on top-level commas. */
+function splitOperands(text: string): string[] {
+  const result: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of text) {
+    if (ch === '(') depth++;
+    else if (ch === ')') depth--;
+    else if (ch === ',' && depth === 0) {
+      result.push(current);
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  if (current.trim()) result.push(current);
+  return result;
+}
+
+/** The modifier the assembler would choose, with the same one-operand defaults. */
+function defaultModifierFor(opcode: string, operands: string[]): number {
+  const modeOf = (operand: string | undefined): AddressMode => {
+    const index = (ADDRESS_MODE_SYMBOLS as readonly string[]).indexOf(operand?.[0] ?? '');
+    return index >= 0 ? index as AddressMode : AddressMode.DIRECT;
+  };
+  const op = (OPCODE_NAMES as readonly string[]).indexOf(opcode) as Opcode;
+  if (operands.length >= 2) return defaultModifier(op, modeOf(operands[0]), modeOf(operands[1]));
+  if (op === Opcode.DAT) return defaultModifier(op, AddressMode.IMMEDIATE, modeOf(operands[0]));
+  return defaultModifier(op, modeOf(operands[0]), AddressMode.DIRECT);
+}
+
+/** Names of EQUs whose text starts with an addressing mode, which hides the real mode of an operand. */
+function equsWithModes(lines: string[]): Set<string> {
+  const names = new Set<string>();
+  for (const line of lines) {
+    const match = /^\s*([A-Za-z_][A-Za-z0-9_]*):?\s+equ\s+([#$@<>*{}])/i.exec(line);
+    if (match) names.add(match[1].toUpperCase());
+  }
+  return names;
+}
+
+/** Names of EQUs followed by continuation `EQU` lines. */
+function multiLineEqus(lines: string[]): Set<string> {
+  const names = new Set<string>();
+  let last: string | null = null;
+  for (const line of lines) {
+    const code = line.split(';')[0];
+    const labelled = /^\s*([A-Za-z_][A-Za-z0-9_]*):?\s+equ\b/i.exec(code);
+    if (labelled) last = labelled[1].toUpperCase();
+    else if (/^\s*equ\b/i.test(code) && last) names.add(last);
+    else if (code.trim()) last = null;
+  }
+  return names;
+}
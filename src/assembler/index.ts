@@ -3,17 +3,143 @@ import { encodeOpcode, decodeOpcode } from '../constants.js';
 import { ExpressionEvaluator } from './expression.js';
 import { normalize } from '../utils/modular-arithmetic.js';
 import { computePSpaceSize } from '../simulator/pspace.js';
+import { formatListing } from './listing.js';
+import { tokenizeLine } from './tokenizer.js';
+import { isIcws88Opcode, isIcws88Mode, checkIcws88Modes, defaultModifier88 } from '../icws88.js';
+import { type DiagnosticCode, type RelatedLocation } from './diagnostics.js';
+
+export type { DiagnosticCode, RelatedLocation } from './diagnostics.js';
 
 export interface AssemblerMessage {
   type: 'ERROR' | 'WARNING' | 'INFO';
+  /** 1-based source line, or 0 for messages about the whole warrior */
   line: number;
+  /** Included file the line belongs to; absent for the main source */
+  file?: string;
   text: string;
+  code: DiagnosticCode;
+  /** 1-based column where the problem starts on `line` */
+  column?: number;
+  /** 1-based column just past the end of the problem */
+  endColumn?: number;
+  /** Source text the message is about */
+  token?: string;
+  /** Other locations involved, e.g. the first definition of a duplicate label */
+  related?: RelatedLocation[];
+}
+
+type MessageLocation = Pick<AssemblerMessage, 'line' | 'column' | 'endColumn' | 'token'>;
+/** Locate a token (or the whole statement) on the line being assembled. */
+type Locator = (token?: string) => MessageLocation;
+
+/** One FOR/ROF iteration that produced an instruction. */
+export interface ForIteration {
+  /** FOR counter label, or null for an unlabeled FOR */
+  counter: string | null;
+  /** 1-based iteration number */
+  iteration: number;
+}
+
+/** Where an assembled instruction came from in the source. */
+export interface SourceLocation {
+  /** 1-based source line */
+  line: number;
+  /** Included file the line belongs to; absent for the main source */
+  file?: string;
+  /** 1-based column of the first character of the statement */
+  column: number;
+  /** FOR/ROF expansions that produced the instruction, outermost first */
+  forIterations?: ForIteration[];
+}
+
+export interface LabelSymbol {
+  name: string;
+  /** Instruction offset from the start of the warrior */
+  offset: number;
+  line: number;
+  file?: string;
+}
+
+export interface EquSymbol {
+  name: string;
+  /** Raw replacement text; the first line for multi-line EQUs */
+  text: string;
+  /** All lines of a multi-line EQU */
+  lines?: string[];
+  /** Evaluated value, or null if the text is not a numeric expression */
+  value: number | null;
+  line: number;
+  file?: string;
+}
+
+export interface ForCounterSymbol {
+  name: string;
+  /** Iteration count the FOR expression evaluated to */
+  count: number;
+  line: number;
+  file?: string;
+}
+
+/** Symbols defined by a warrior, resolved after assembly. */
+export interface SymbolTable {
+  labels: LabelSymbol[];
+  equs: EquSymbol[];
+  forCounters: ForCounterSymbol[];
+  /** Evaluated ORG expression, or null if absent */
+  org: number | null;
+  /** Evaluated END expression, or null if absent or empty */
+  end: number | null;
+  pin: number | null;
 }
 
 export interface AssembleResult {
   success: boolean;
   warrior: WarriorData | null;
   messages: AssemblerMessage[];
+  /** sourceMap[i] locates warrior.instructions[i]; empty when assembly fails */
+  sourceMap: SourceLocation[];
+  symbols: SymbolTable;
+  /** Human-readable listing, present when AssemblerConfig.listing is set and assembly succeeds */
+  listing?: string;
+}
+
+/**
+ * Supplies the text of `path` for `;include "path"`, or null if it does not
+ * exist. `from` is the including file, or null for the main source.
+ */
+export type IncludeResolver = (path: string, from: string | null) => string | null;
+
+/** Assembler behavior that is independent of the simulator options. */
+export interface AssemblerConfig {
+  /** Produce AssembleResult.listing */
+  listing?: boolean;
+  /** Enables `;include` directives */
+  resolveInclude?: IncludeResolver;
+}
+
+/** Where a line of include-expanded source came from. */
+interface LineOrigin {
+  file: string | null;
+  line: number;
+}
+
+interface SourceLine {
+  /** Index of the logical line in the continuation-joined source */
+  lineIdx: number;
+  text: string;
+  rawLine: string;
+  line: number;
+  column: number;
+  forIterations: ForIteration[];
+}
+
+interface PendingInstruction {
+  lineIdx: number;
+  line: number;
+  column: number;
+  text: string;
+  rawLine: string;
+  forIterations: ForIteration[];
 }
 
 interface Label {
@@ -22,25 +148,109 @@ interface Label {
   isEqu: boolean;
   equText?: string;
   equLines?: string[];
+  line: number;
+  column?: number;
 }
 
 export class Assembler {
   private options: Partial<SimulatorOptions>;
+  private config: AssemblerConfig;
   private evaluator: ExpressionEvaluator;
 
-  constructor(options?: Partial<SimulatorOptions>) {
+  constructor(options?: Partial<SimulatorOptions>, config?: AssemblerConfig) {
     this.options = options ?? {};
+    this.config = config ?? {};
     this.evaluator = new ExpressionEvaluator();
   }
 
+  /**
+   * Assemble every warrior in a file, one per `;redcode` section. Text before
+   * the first `;redcode` is ignored, as assemble() does; a file without any
+   * `;redcode` line is a single warrior. Line numbers refer to the whole file.
+   */
+  assembleAll(source: string): AssembleResult[] {
+    const rawLines = source.split('\n');
+    const starts: number[] = [];
+    rawLines.forEach((line, i) => {
+      const trimmed = line.trim();
+      if (trimmed.startsWith(';') && trimmed.substring(1).trim().toUpperCase().startsWith('REDCODE')) starts.push(i);
+    });
+    if (starts.length === 0) return [this.assemble(source)];
+    return starts.map((start, i) => {
+      const section = rawLines.slice(start, starts[i + 1] ?? rawLines.length);
+      // Blank lines in place of the preceding text keep line numbers file-relative
+      return this.assemble('\n'.repeat(start) + section.join('\n'));
+    });
+  }
+
   assemble(source: string): AssembleResult {
-    const opts = { ...DEFAULT_OPTIONS, ...this.options };
     const messages: AssemblerMessage[] = [];
+    const { text, origins } = this.expandIncludes(source, messages);
+    const { result, sourceLines } = this.assembleSource(text, messages);
+    if (origins) relocate(result, origins);
+    if (this.config.listing && result.warrior) {
+      result.listing = formatListing({
+        warrior: result.warrior,
+        sourceMap: result.sourceMap,
+        sourceLines,
+        labels: result.symbols.labels,
+        coreSize: this.options.coreSize ?? DEFAULT_OPTIONS.coreSize,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Splice `;include` files into the source when an include resolver is
+   * configured. Returns the expanded text and, if anything was included, the
+   * file and line each of its lines came from.
+   */
+  private expandIncludes(source: string, messages: AssemblerMessage[]): { text: string; origins: LineOrigin[] | null } {
+    const resolve = this.config.resolveInclude;
+    if (!resolve) return { text: source, origins: null };
+    const lines: string[] = [];
+    const origins: LineOrigin[] = [];
+    let included = false;
+
+    const visit = (text: string, file: string | null, stack: string[]): void => {
+      text.split('\n').forEach((line, i) => {
+        lines.push(line);
+        origins.push({ file, line: i + 1 });
+        const match = INCLUDE_DIRECTIVE.exec(line);
+        if (!match) return;
+        const path = match[1] ?? match[2];
+        const column = match[0].lastIndexOf(path) + 1;
+        const fail = (reason: string): void => {
+          messages.push({ type: 'ERROR', code: 'INCERR', line: lines.length, column, endColumn: column + path.length, token: path, text: reason });
+        };
+        if (stack.includes(path)) return fail(`Recursive include of "${path}"`);
+        let content: string | null;
+        try {
+          content = resolve(path, file);
+        } catch (e) {
+          return fail(`Cannot include "${path}": ${e instanceof Error ? e.message : String(e)}`);
+        }
+        if (content === null) return fail(`Include file not found: "${path}"`);
+        included = true;
+        visit(content, path, [...stack, path]);
+      });
+    };
+    visit(source, null, []);
+    return included ? { text: lines.join('\n'), origins } : { text: source, origins: null };
+  }
+
+  private assembleSource(source: string, messages: AssemblerMessage[]): { result: AssembleResult; sourceLines: string[] } {
+    const opts = { ...DEFAULT_OPTIONS, ...this.options };
     // Handle line continuation: join lines ending with '\' (before any comment)
     const rawLines = source.split('\n');
     const lines: string[] = [];
+    // Physical lines joined into each logical line: offset in the joined text and 1-based line number
+    const lineSegments: { offset: number; line: number }[][] = [];
+    let segments: { offset: number; line: number }[] = [];
     let continuation = '';
-    for (const rawLine of rawLines) {
+    for (let i = 0; i < rawLines.length; i++) {
+      const rawLine = rawLines[i];
+      segments.push({ offset: continuation.length, line: i + 1 });
       // Strip trailing comment to check for backslash
       const commentPos = rawLine.indexOf(';');
       const beforeComment = commentPos >= 0 ? rawLine.substring(0, commentPos) : rawLine;
@@ -49,10 +259,44 @@ export class Assembler {
         continuation += beforeComment.trimEnd().slice(0, -1);
       } else {
         lines.push(continuation + rawLine);
+        lineSegments.push(segments);
+        segments = [];
         continuation = '';
       }
     }
-    if (continuation) lines.push(continuation);
+    if (continuation) {
+      lines.push(continuation);
+      lineSegments.push(segments);
+    }
+    // Physical line and column of an offset into a logical line
+    const physical = (lineIdx: number, offset: number): { line: number; column: number } => {
+      let seg = lineSegments[lineIdx][0];
+      for (const candidate of lineSegments[lineIdx]) {
+        if (candidate.offset <= offset) seg = candidate;
+      }
+      return { line: seg.line, column: offset - seg.offset + 1 };
+    };
+    // Location of a logical line's first non-blank character
+    const locate = (lineIdx: number): { line: number; column: number } => {
+      const text = lines[lineIdx];
+      return physical(lineIdx, text.length - text.trimStart().length);
+    };
+    // Message location of a token on a logical line, or of the whole statement if it is absent
+    const span = (lineIdx: number, token?: string): MessageLocation => {
+      const text = lines[lineIdx];
+      const start = text.length - text.trimStart().length;
+      let from = start;
+      // Comment lines (;assert) span the whole line, statements stop at their comment
+      let to = (text.trimStart().startsWith(';') ? text : text.split(';')[0]).trimEnd().length;
+      const found = token ? findToken(text, token, start) : null;
+      if (found) {
+        [from, to] = found;
+        token = text.substring(from, to);
+      }
+      const { line, column } = physical(lineIdx, from);
+      return { line, column, endColumn: column + Math.max(to - from, 1), ...(token !== undefined ? { token } : {}) };
+    };
+    const sourceLine = (lineIdx: number): number => lineSegments[lineIdx][0].line;
 
     let name = 'Unknown';
     let author = 'Anonymous';
@@ -66,23 +310,23 @@ export class Assembler {
     let pinExprDeferred: { expr: string; lineNum: number } | null = null;
 
     const labels: Map<string, Label> = new Map();
-    const instructions: { line: number; text: string; rawLine: string }[] = [];
+    // DLBERR: a label defined twice keeps its latest definition
+    const defineLabel = (lbl: string, value: number, lineIdx: number): void => {
+      const at = span(lineIdx, lbl);
+      const previous = labels.get(lbl);
+      if (previous) {
+        messages.push({
+          type: 'WARNING', code: 'DLBERR', ...at, text: `Duplicate label: ${lbl}`,
+          related: [{ line: previous.line, ...(previous.column !== undefined ? { column: previous.column } : {}), text: `${lbl} is first defined here` }],
+        });
+      }
+      labels.set(lbl, { name: lbl, value, isEqu: false, line: at.line, column: at.column });
+    };
+    const instructions: PendingInstruction[] = [];
 
     // Set up predefined constants
     this.evaluator.resetRegisters();
-    const predefined = new Map<string, number>();
-    predefined.set('CORESIZE', opts.coreSize);
-    predefined.set('MAXPROCESSES', opts.maxProcesses);
-    predefined.set('MAXCYCLES', opts.maxCycles);
-    predefined.set('MAXLENGTH', opts.maxLength);
-    predefined.set('MINDISTANCE', opts.minSeparation);
-    predefined.set('VERSION', 96);
-    predefined.set('WARRIORS', opts.warriors);
-    predefined.set('ROUNDS', opts.rounds);
-    predefined.set('PSPACESIZE', opts.pSpaceSize > 0 ? opts.pSpaceSize : computePSpaceSize(opts.coreSize));
-    // READLIMIT/WRITELIMIT: default to coreSize when 0 (matches C clparse.c:646-649)
-    predefined.set('READLIMIT', opts.readLimit || opts.coreSize);
-    predefined.set('WRITELIMIT', opts.writeLimit || opts.coreSize);
+    const predefined = predefinedConstants(opts);
 
     // Pass 1: collect labels, EQUs, metadata, and instruction lines
     let instrCount = 0;
@@ -90,8 +334,9 @@ export class Assembler {
     // Issue #1: multi-line EQU storage
     const multiLineEquDefs: Map<string, string[]> = new Map();
     let forDepth = 0;
-    let forBuffer: { label: string | null; count: number; lines: string[] } | null = null;
+    let forBuffer: { label: string | null; count: number; lines: SourceLine[] } | null = null;
     const forCounterNames = new Set<string>();
+    const forCounters: ForCounterSymbol[] = [];
 
     // Issue #6: ;redcode delimiter tracking
     let redcodeFound = false;
@@ -122,6 +367,7 @@ export class Assembler {
             instructions.length = 0;
             instrCount = 0;
             labels.clear();
+            forCounters.length = 0;
             equDefs.clear();
             multiLineEquDefs.clear();
             name = 'Unknown';
@@ -160,7 +406,7 @@ export class Assembler {
             const substituted = this.substituteEqus(assertExpr, equDefs, predefined);
             const evalResult = this.evaluator.evaluate(substituted);
             if (evalResult.ok && evalResult.value === 0) {
-              messages.push({ type: 'ERROR', line: lineNum + 1, text: `Assertion failed: ${assertExpr}` });
+              messages.push({ type: 'ERROR', code: 'ASSERR', ...span(lineNum, assertExpr), text: `Assertion failed: ${assertExpr}` });
             }
           }
           lastEquLabel = null;
@@ -184,7 +430,7 @@ export class Assembler {
           forDepth--;
           if (forDepth === 0) {
             // Issue #2: Recursively expand inner FOR/ROF blocks before expanding
-            const expandedLines = this.expandNestedFor(forBuffer.lines, equDefs, predefined);
+            const expandedLines = this.expandNestedFor(forBuffer.lines, equDefs, predefined, forCounters);
             // Expand FOR block
             for (let i = 1; i <= forBuffer.count; i++) {
               if (forBuffer.label) {
@@ -195,9 +441,9 @@ export class Assembler {
                 // Update CURLINE during pass 1 expansion (matches C's trav2 behavior)
                 predefined.set('CURLINE', instrCount);
                 // Issue #3: & concatenation operator (restricted to FOR counter variables, matching C's RSTACK)
-                const processedLine = this.substituteAmpersand(fline, equDefs, predefined, forCounterNames);
+                const processedLine = this.substituteAmpersand(fline.text, equDefs, predefined, forCounterNames);
                 // Check if this is an EQU line - process as definition, not instruction
-                const forTokens = this.tokenizeLine(processedLine);
+                const forTokens = tokenizeLine(processedLine);
                 let forTokIdx = 0;
                 let forLabel: string | null = null;
                 while (forTokIdx < forTokens.length) {
@@ -211,10 +457,17 @@ export class Assembler {
                 if (forTokIdx < forTokens.length && forTokens[forTokIdx].toUpperCase() === 'EQU' && forLabel) {
                   const equValue = forTokens.slice(forTokIdx + 1).join(' ');
                   equDefs.set(forLabel, equValue);
-                  labels.set(forLabel, { name: forLabel, value: 0, isEqu: true, equText: equValue });
+                  labels.set(forLabel, { name: forLabel, value: 0, isEqu: true, equText: equValue, line: fline.line, column: fline.column });
                   continue; // Don't add as instruction
                 }
-                instructions.push({ line: lineNum + 1, text: processedLine, rawLine });
+                instructions.push({
+                  lineIdx: fline.lineIdx,
+                  line: fline.line,
+                  column: fline.column,
+                  text: processedLine,
+                  rawLine: fline.rawLine,
+                  forIterations: [{ counter: forBuffer.label, iteration: i }, ...fline.forIterations],
+                });
                 instrCount++;
               }
             }
@@ -231,7 +484,7 @@ export class Assembler {
         if (upperLine.startsWith('FOR')) {
           forDepth++;
         }
-        forBuffer.lines.push(line);
+        forBuffer.lines.push({ lineIdx: lineNum, text: line, rawLine, ...locate(lineNum), forIterations: [] });
         continue;
       }
 
@@ -241,7 +494,7 @@ export class Assembler {
       let rest = line;
 
       // Extract label(s)
-      const tokens = this.tokenizeLine(rest);
+      const tokens = tokenizeLine(rest);
       if (tokens.length === 0) continue;
 
       let tokenIdx = 0;
@@ -262,9 +515,7 @@ export class Assembler {
 
       if (tokenIdx >= tokens.length) {
         // Label only, no instruction
-        for (const lbl of labelNames) {
-          labels.set(lbl, { name: lbl, value: instrCount, isEqu: false });
-        }
+        for (const lbl of labelNames) defineLabel(lbl, instrCount, lineNum);
         lastEquLabel = null;
         continue;
       }
@@ -275,7 +526,7 @@ export class Assembler {
         if (labelName) {
           const equValue = tokens.slice(tokenIdx + 1).join(' ');
           equDefs.set(labelName, equValue);
-          labels.set(labelName, { name: labelName, value: 0, isEqu: true, equText: equValue });
+          labels.set(labelName, { name: labelName, value: 0, isEqu: true, equText: equValue, ...locate(lineNum) });
           // Issue #1: start multi-line EQU tracking
           multiLineEquDefs.set(labelName, [equValue]);
           lastEquLabel = labelName;
@@ -291,7 +542,7 @@ export class Assembler {
             label.equLines = existing;
           }
         } else {
-          messages.push({ type: 'ERROR', line: lineNum + 1, text: 'EQU without label' });
+          messages.push({ type: 'ERROR', code: 'EQUERR', ...span(lineNum, 'EQU'), text: 'EQU without label' });
           lastEquLabel = null;
         }
         continue;
@@ -301,7 +552,7 @@ export class Assembler {
 
       // FORERR: standalone ROF without FOR (matches C asm.c:2964)
       if (opToken === 'ROF') {
-        messages.push({ type: 'WARNING', line: lineNum + 1, text: 'ROF without matching FOR' });
+        messages.push({ type: 'WARNING', code: 'FORERR', ...span(lineNum, 'ROF'), text: 'ROF without matching FOR' });
         continue;
       }
 
@@ -311,6 +562,7 @@ export class Assembler {
         const evalResult = this.evaluator.evaluate(substituted);
         const count = (evalResult.ok ? evalResult.value : 0) & 0xFFFF;
         forBuffer = { label: labelName, count, lines: [] };
+        if (labelName) forCounters.push({ name: labelName, count, line: sourceLine(lineNum) });
         forDepth = 1;
         continue;
       }
@@ -318,7 +570,7 @@ export class Assembler {
       if (opToken === 'ORG') {
         const offsetExpr = tokens.slice(tokenIdx + 1).join(' ');
         // Defer evaluation to pass 2 so forward label references work (matches C's encode())
-        orgExprDeferred = { expr: offsetExpr, lineNum: lineNum + 1 };
+        orgExprDeferred = { expr: offsetExpr, lineNum: sourceLine(lineNum) };
         continue;
       }
 
@@ -326,7 +578,7 @@ export class Assembler {
         const offsetExpr = tokens.slice(tokenIdx + 1).join(' ');
         if (offsetExpr.trim()) {
           // Defer evaluation to pass 2 so forward label references work
-          endExprDeferred = { expr: offsetExpr, lineNum: lineNum + 1 };
+          endExprDeferred = { expr: offsetExpr, lineNum };
         }
         break; // Stop processing after END
       }
@@ -334,34 +586,35 @@ export class Assembler {
       if (opToken === 'PIN') {
         const pinExpr = tokens.slice(tokenIdx + 1).join(' ');
         // Defer evaluation to pass 2 so forward label references work
-        pinExprDeferred = { expr: pinExpr, lineNum: lineNum + 1 };
+        pinExprDeferred = { expr: pinExpr, lineNum: sourceLine(lineNum) };
         continue;
       }
 
       // It's an instruction - register all labels for this line
-      for (const lbl of labelNames) {
-        labels.set(lbl, { name: lbl, value: instrCount, isEqu: false });
-      }
+      for (const lbl of labelNames) defineLabel(lbl, instrCount, lineNum);
 
       // Issue #1: Check if this is a reference to a multi-line EQU
       const instrText = tokens.slice(tokenIdx).join(' ');
-      instructions.push({ line: lineNum + 1, text: instrText, rawLine });
+      instructions.push({ lineIdx: lineNum, ...locate(lineNum), text: instrText, rawLine, forIterations: [] });
       instrCount++;
     }
 
     // Resolve deferred ORG/END/PIN now that all labels are known (pass 2 timing, matches C)
+    let orgValue: number | null = null;
+    let endValue: number | null = null;
     if (orgExprDeferred) {
       const substituted = this.substituteLabelsAndEqusAbsolute(orgExprDeferred.expr, labels, equDefs, predefined);
       const evalResult = this.evaluator.evaluate(substituted);
-      if (evalResult.ok) orgOffset = evalResult.value;
+      if (evalResult.ok) orgOffset = orgValue = evalResult.value;
     }
     if (endExprDeferred) {
       const substituted = this.substituteLabelsAndEqusAbsolute(endExprDeferred.expr, labels, equDefs, predefined);
       const evalResult = this.evaluator.evaluate(substituted);
+      if (evalResult.ok) endValue = evalResult.value;
       if (evalResult.ok && evalResult.value !== 0) {
         if (orgOffset !== 0 && orgExprDeferred) {
           // DOEERR: END offset ignored when ORG already set
-          messages.push({ type: 'WARNING', line: endExprDeferred.lineNum, text: 'END offset ignored, ORG already set' });
+          messages.push({ type: 'WARNING', code: 'DOEERR', ...span(endExprDeferred.lineNum, 'END'), text: 'END offset ignored, ORG already set' });
         } else if (orgOffset === 0) {
           endOffset = evalResult.value;
         }
@@ -373,9 +626,30 @@ export class Assembler {
       if (evalResult.ok) pin = evalResult.value;
     }
 
+    const symbols: SymbolTable = {
+      labels: [],
+      equs: [],
+      forCounters,
+      org: orgValue,
+      end: endValue,
+      pin,
+    };
+    for (const label of labels.values()) {
+      if (!label.isEqu) {
+        symbols.labels.push({ name: label.name, offset: label.value, line: label.line });
+        continue;
+      }
+      const text = label.equText ?? '';
+      if (label.equLines && label.equLines.length > 1) {
+        symbols.equs.push({ name: label.name, text, lines: [...label.equLines], value: null, line: label.line });
+      } else {
+        symbols.equs.push({ name: label.name, text, value: this.evaluateEqu(text, labels, equDefs, predefined), line: label.line });
+      }
+    }
+
     // ROFERR: unclosed FOR/ROF (matches C asm.c:1639)
     if (forBuffer) {
-      messages.push({ type: 'WARNING', line: 0, text: 'Unclosed FOR block (missing ROF)' });
+      messages.push({ type: 'WARNING', code: 'ROFERR', line: 0, text: 'Unclosed FOR block (missing ROF)' });
     }
 
     if (endOffset !== null && orgOffset === 0) {
@@ -384,7 +658,7 @@ export class Assembler {
 
     // NASERR: warn when no ;assert directive is present
     if (!assertFound) {
-      messages.push({ type: 'WARNING', line: 0, text: 'Missing ASSERT' });
+      messages.push({ type: 'WARNING', code: 'NASERR', line: 0, text: 'Missing ASSERT' });
     }
 
     // Issue #1: Expand multi-line EQU references in instructions
@@ -393,14 +667,14 @@ export class Assembler {
     // Check instruction count
     const finalInstrCount = expandedInstructions.length;
     if (finalInstrCount === 0) {
-      messages.push({ type: 'ERROR', line: 0, text: 'No instructions found' });
-      return { success: false, warrior: null, messages };
+      messages.push({ type: 'ERROR', code: 'EMPERR', line: 0, text: 'No instructions found' });
+      return { result: { success: false, warrior: null, messages, sourceMap: [], symbols }, sourceLines: [] };
     }
 
     // Instruction count limit (C pMARS: MAXINSTR in global.h, -l flag)
     if (finalInstrCount > opts.maxLength) {
       // C treats exceeding instrLim as an error (LINERR, asm.c:1489-1491)
-      messages.push({ type: 'ERROR', line: 0, text: `Warrior has ${finalInstrCount} instructions, limit is ${opts.maxLength}` });
+      messages.push({ type: 'ERROR', code: 'LINERR', line: 0, text: `Warrior has ${finalInstrCount} instructions, limit is ${opts.maxLength}` });
     }
 
     // Rebuild labels with correct instruction indices after multi-line EQU expansion
@@ -410,37 +684,43 @@ export class Assembler {
     const assembled: Instruction[] = [];
 
     for (let i = 0; i < expandedInstructions.length; i++) {
-      const { line: lineNum, text } = expandedInstructions[i];
+      const { lineIdx, text } = expandedInstructions[i];
       // Issue #4: Set CURLINE predefined variable
       predefined.set('CURLINE', i);
-      const result = this.assembleInstruction(text, i, finalInstrCount, labels, equDefs, predefined, opts.coreSize, lineNum, messages);
+      const at: Locator = token => span(lineIdx, token);
+      const result = this.assembleInstruction(text, i, finalInstrCount, labels, equDefs, predefined, opts.coreSize, at, messages);
       if (result) {
         assembled.push(result);
       }
     }
 
     if (messages.some(m => m.type === 'ERROR')) {
-      return { success: false, warrior: null, messages };
+      return { result: { success: false, warrior: null, messages, sourceMap: [], symbols }, sourceLines: [] };
     }
 
     // OFSERR: validate offset is within program bounds (matches C asm.c:1560-1562)
     if (orgOffset < 0 || orgOffset >= finalInstrCount) {
-      messages.push({ type: 'WARNING', line: 0, text: `ORG/END offset ${orgOffset} is outside program bounds (0-${finalInstrCount - 1})` });
+      messages.push({ type: 'WARNING', code: 'OFSERR', line: 0, text: `ORG/END offset ${orgOffset} is outside program bounds (0-${finalInstrCount - 1})` });
     }
     const startOffset = normalize(orgOffset, opts.coreSize);
+    const warrior: WarriorData = {
+      instructions: assembled,
+      startOffset,
+      name,
+      author,
+      strategy,
+      pin,
+      warnings: messages.filter(m => m.type === 'WARNING').map(m => m.text),
+    };
+    const sourceMap: SourceLocation[] = expandedInstructions.map(({ line, column, forIterations }) => ({
+      line,
+      column,
+      ...(forIterations.length > 0 ? { forIterations } : {}),
+    }));
 
     return {
-      success: true,
-      warrior: {
-        instructions: assembled,
-        startOffset,
-        name,
-        author,
-        strategy,
-        pin,
-        warnings: messages.filter(m => m.type === 'WARNING').map(m => m.text),
-      },
-      messages,
+      result: { success: true, warrior, messages, sourceMap, symbols },
+      sourceLines: expandedInstructions.map(instr => instr.rawLine),
     };
   }
 
@@ -452,11 +732,11 @@ export class Assembler {
     equDefs: Map<string, string>,
     predefined: Map<string, number>,
     coreSize: number,
-    lineNum: number,
+    at: Locator,
     messages: AssemblerMessage[],
   ): Instruction | null {
     // Parse opcode, modifier, operands
-    const tokens = this.tokenizeLine(text);
+    const tokens = tokenizeLine(text);
     if (tokens.length === 0) return null;
 
     let tokenIdx = 0;
@@ -493,7 +773,7 @@ export class Assembler {
 
     const opcodeIdx = (OPCODE_NAMES as readonly string[]).indexOf(opcodeStr);
     if (opcodeIdx < 0) {
-      messages.push({ type: 'ERROR', line: lineNum, text: `Unknown opcode: ${opcodeStr}` });
+      messages.push({ type: 'ERROR', code: 'OPCERR', ...at(opcodeStr), text: `Unknown opcode: ${opcodeStr}` });
       return null;
     }
     const opcode = opcodeIdx as Opcode;
@@ -506,6 +786,9 @@ export class Assembler {
     let bMode = AddressMode.DIRECT;
     let aExpr = '0';
     let bExpr = '0';
+    // Operand text as written, for message locations
+    const aSource = operands[0]?.trim();
+    const bSource = operands[1]?.trim();
 
     if (operands.length >= 1) {
       // Substitute EQUs before parsing operand so addressing modes in EQU values (e.g. `<2667`) work
@@ -536,28 +819,51 @@ export class Assembler {
           bExpr = '0';
           break;
         default:
-          messages.push({ type: 'ERROR', line: lineNum, text: `Missing operand for ${opcodeStr}` });
+          messages.push({ type: 'ERROR', code: 'OPRERR', ...at(opcodeStr), text: `Missing operand for ${opcodeStr}` });
           return null;
       }
     }
 
     // Determine default modifier if not specified
     let modifier: Modifier;
-    if (modifierStr) {
+    if (this.options.icws88) {
+      // pMARS -8: no modifiers, '94-only opcodes or modes, and restricted mode combinations
+      let error: string | null = null;
+      let token: string | undefined = opcodeStr;
+      if (modifierStr) {
+        error = `Modifiers are not allowed in ICWS'88: ${opcodeStr}.${modifierStr}`;
+        token = `${opcodeStr}.${modifierStr}`;
+      } else if (!isIcws88Opcode(opcode)) {
+        error = `${opcodeStr} is not an ICWS'88 opcode`;
+      } else if (!isIcws88Mode(aMode) || !isIcws88Mode(bMode)) {
+        const badMode = isIcws88Mode(aMode) ? bMode : aMode;
+        error = `Addressing mode '${ADDRESS_MODE_SYMBOLS[badMode]}' is not allowed in ICWS'88`;
+        token = isIcws88Mode(aMode) ? bSource : aSource;
+      } else {
+        error = checkIcws88Modes(opcode, aMode, bMode);
+        if (error?.startsWith('A-mode')) token = aSource;
+        else if (error?.startsWith('B-mode')) token = bSource;
+      }
+      if (error) {
+        messages.push({ type: 'ERROR', code: 'M88ERR', ...at(token), text: error });
+        return null;
+      }
+      modifier = defaultModifier88(opcode, aMode);
+    } else if (modifierStr) {
       const modIdx = (MODIFIER_NAMES as readonly string[]).indexOf(modifierStr);
       if (modIdx < 0) {
-        messages.push({ type: 'ERROR', line: lineNum, text: `Unknown modifier: ${modifierStr}` });
+        messages.push({ type: 'ERROR', code: 'MODERR', ...at(modifierStr), text: `Unknown modifier: ${modifierStr}` });
         return null;
       }
       modifier = modIdx as Modifier;
     } else {
-      modifier = this.defaultModifier(opcode, aMode, bMode);
+      modifier = defaultModifier(opcode, aMode, bMode);
     }
 
     // Evaluate expressions
     // Issue #7 & #8: pass messages for undefined symbol warnings and cycle detection
-    const aSubstituted = this.substituteLabelsAndEqus(aExpr, instrIdx, totalInstr, labels, equDefs, predefined, messages, lineNum);
-    const bSubstituted = this.substituteLabelsAndEqus(bExpr, instrIdx, totalInstr, labels, equDefs, predefined, messages, lineNum);
+    const aSubstituted = this.substituteLabelsAndEqus(aExpr, instrIdx, totalInstr, labels, equDefs, predefined, messages, at);
+    const bSubstituted = this.substituteLabelsAndEqus(bExpr, instrIdx, totalInstr, labels, equDefs, predefined, messages, at);
 
     const aResult = this.evaluator.evaluate(aSubstituted);
     const bResult = this.evaluator.evaluate(bSubstituted);
@@ -568,20 +874,20 @@ export class Assembler {
     if (aResult.ok) {
       aValue = normalize(aResult.value, coreSize);
       if (aResult.overflow) {
-        messages.push({ type: 'WARNING', line: lineNum, text: `A-field expression overflow: ${aExpr}` });
+        messages.push({ type: 'WARNING', code: 'OVFERR', ...at(aSource), text: `A-field expression overflow: ${aExpr}` });
       }
     } else {
-      messages.push({ type: 'ERROR', line: lineNum, text: `Bad A-field expression: ${aExpr} (${aResult.error})` });
+      messages.push({ type: 'ERROR', code: 'EXPERR', ...at(aSource), text: `Bad A-field expression: ${aExpr} (${aResult.error})` });
       return null;
     }
 
     if (bResult.ok) {
       bValue = normalize(bResult.value, coreSize);
       if (bResult.overflow) {
-        messages.push({ type: 'WARNING', line: lineNum, text: `B-field expression overflow: ${bExpr}` });
+        messages.push({ type: 'WARNING', code: 'OVFERR', ...at(bSource), text: `B-field expression overflow: ${bExpr}` });
       }
     } else {
-      messages.push({ type: 'ERROR', line: lineNum, text: `Bad B-field expression: ${bExpr} (${bResult.error})` });
+      messages.push({ type: 'ERROR', code: 'EXPERR', ...at(bSource), text: `Bad B-field expression: ${bExpr} (${bResult.error})` });
       return null;
     }
 
@@ -624,36 +930,6 @@ export class Assembler {
     return result;
   }
 
-  private defaultModifier(opcode: Opcode, aMode: AddressMode, bMode: AddressMode): Modifier {
-    switch (opcode) {
-      case Opcode.DAT:
-      case Opcode.NOP:
-        return Modifier.F;
-      case Opcode.MOV:
-      case Opcode.CMP:
-      case Opcode.SEQ:
-      case Opcode.SNE:
-        if (aMode === AddressMode.IMMEDIATE) return Modifier.AB;
-        if (bMode === AddressMode.IMMEDIATE) return Modifier.B;
-        return Modifier.I;
-      case Opcode.ADD:
-      case Opcode.SUB:
-      case Opcode.MUL:
-      case Opcode.DIV:
-      case Opcode.MOD:
-        if (aMode === AddressMode.IMMEDIATE) return Modifier.AB;
-        if (bMode === AddressMode.IMMEDIATE) return Modifier.B;
-        return Modifier.F;
-      case Opcode.SLT:
-      case Opcode.LDP:
-      case Opcode.STP:
-        if (aMode === AddressMode.IMMEDIATE) return Modifier.AB;
-        return Modifier.B;
-      default:
-        return Modifier.B;
-    }
-  }
-
   private substituteLabelsAndEqus(
     expr: string,
     instrIdx: number,
@@ -662,7 +938,7 @@ export class Assembler {
     equDefs: Map<string, string>,
     predefined: Map<string, number>,
     messages?: AssemblerMessage[],
-    lineNum?: number,
+    at?: Locator,
     // Issue #8: cycle detection set
     visited?: Set<string>,
   ): string {
@@ -684,15 +960,15 @@ export class Assembler {
       if (equVal !== undefined) {
         if (cycleSet.has(upper)) {
           // Cycle detected
-          if (messages) {
-            messages.push({ type: 'WARNING', line: lineNum ?? 0, text: `Recursive EQU cycle detected for ${upper}` });
+          if (messages && at) {
+            messages.push({ type: 'WARNING', code: 'RECERR', ...at(upper), text: `Recursive EQU cycle detected for ${upper}` });
           }
           return '0';
         }
         const newVisited = new Set(cycleSet);
         newVisited.add(upper);
         // Recursively substitute
-        return this.substituteLabelsAndEqus(equVal, instrIdx, _totalInstr, labels, equDefs, predefined, messages, lineNum, newVisited);
+        return this.substituteLabelsAndEqus(equVal, instrIdx, _totalInstr, labels, equDefs, predefined, messages, at, newVisited);
       }
 
       // Check labels
@@ -700,14 +976,14 @@ export class Assembler {
       if (label !== undefined) {
         if (label.isEqu && label.equText) {
           if (cycleSet.has(upper)) {
-            if (messages) {
-              messages.push({ type: 'WARNING', line: lineNum ?? 0, text: `Recursive EQU cycle detected for ${upper}` });
+            if (messages && at) {
+              messages.push({ type: 'WARNING', code: 'RECERR', ...at(upper), text: `Recursive EQU cycle detected for ${upper}` });
             }
             return '0';
           }
           const newVisited = new Set(cycleSet);
           newVisited.add(upper);
-          return this.substituteLabelsAndEqus(label.equText, instrIdx, _totalInstr, labels, equDefs, predefined, messages, lineNum, newVisited);
+          return this.substituteLabelsAndEqus(label.equText, instrIdx, _totalInstr, labels, equDefs, predefined, messages, at, newVisited);
         }
         return String(label.value - instrIdx);
       }
@@ -716,8 +992,8 @@ export class Assembler {
       if (match.length === 1) return match;
 
       // Issue #7: undefined symbol warning
-      if (messages) {
-        messages.push({ type: 'WARNING', line: lineNum ?? 0, text: `Undefined symbol: ${match}` });
+      if (messages && at) {
+        messages.push({ type: 'WARNING', code: 'UNDERR', ...at(match), text: `Undefined symbol: ${match}` });
       }
       return '0';
     });
@@ -768,6 +1044,22 @@ export class Assembler {
     });
   }
 
+  /** Numeric value of an EQU, or null if its text is not an expression over known symbols. */
+  private evaluateEqu(
+    text: string,
+    labels: Map<string, Label>,
+    equDefs: Map<string, string>,
+    predefined: Map<string, number>,
+  ): number | null {
+    const identifiers = text.match(/[A-Za-z_][A-Za-z0-9_]*/g) ?? [];
+    for (const id of identifiers) {
+      const upper = id.toUpperCase();
+      if (!predefined.has(upper) && !equDefs.has(upper) && !labels.has(upper)) return null;
+    }
+    const result = this.evaluator.evaluate(this.substituteLabelsAndEqusAbsolute(text, labels, equDefs, predefined));
+    return result.ok ? result.value : null;
+  }
+
   /**
    * Substitute EQU definitions as raw text macros (before addressing mode parsing).
    * This handles EQUs like `dmopa equ <2667` where the value includes an addressing mode.
@@ -827,16 +1119,21 @@ export class Assembler {
   /**
    * Issue #2: Recursively expand nested FOR/ROF blocks within a list of lines.
    */
-  private expandNestedFor(lines: string[], equDefs: Map<string, string>, predefined: Map<string, number>): string[] {
-    const result: string[] = [];
+  private expandNestedFor(
+    lines: SourceLine[],
+    equDefs: Map<string, string>,
+    predefined: Map<string, number>,
+    forCounters: ForCounterSymbol[],
+  ): SourceLine[] {
+    const result: SourceLine[] = [];
     let i = 0;
 
     while (i < lines.length) {
-      const upperLine = lines[i].toUpperCase().trim();
+      const upperLine = lines[i].text.toUpperCase().trim();
 
       if (upperLine.startsWith('FOR')) {
         // Parse inner FOR
-        const tokens = this.tokenizeLine(lines[i]);
+        const tokens = tokenizeLine(lines[i].text);
         let labelName: string | null = null;
         let tokenIdx = 0;
 
@@ -854,13 +1151,14 @@ export class Assembler {
         const substituted = this.substituteEqus(countExpr, equDefs, predefined);
         const evalResult = this.evaluator.evaluate(substituted);
         const count = (evalResult.ok ? evalResult.value : 0) & 0xFFFF;
+        if (labelName) forCounters.push({ name: labelName, count, line: lines[i].line });
 
         // Collect inner FOR body
         let depth = 1;
-        const innerLines: string[] = [];
+        const innerLines: SourceLine[] = [];
         i++;
         while (i < lines.length && depth > 0) {
-          const innerUpper = lines[i].toUpperCase().trim();
+          const innerUpper = lines[i].text.toUpperCase().trim();
           if (innerUpper.startsWith('ROF')) {
             depth--;
             if (depth === 0) {
@@ -876,7 +1174,7 @@ export class Assembler {
         }
 
         // Recursively expand the inner body
-        const expandedInner = this.expandNestedFor(innerLines, equDefs, predefined);
+        const expandedInner = this.expandNestedFor(innerLines, equDefs, predefined, forCounters);
 
         // Expand the inner FOR count times
         for (let j = 1; j <= count; j++) {
@@ -884,7 +1182,7 @@ export class Assembler {
             equDefs.set(labelName, String(j));
           }
           for (const fline of expandedInner) {
-            result.push(fline);
+            result.push({ ...fline, forIterations: [{ counter: labelName, iteration: j }, ...fline.forIterations] });
           }
         }
       } else {
@@ -902,10 +1200,10 @@ export class Assembler {
    * expand it into multiple instruction lines.
    */
   private expandMultiLineEqus(
-    instructions: { line: number; text: string; rawLine: string }[],
+    instructions: PendingInstruction[],
     multiLineEquDefs: Map<string, string[]>,
-  ): { line: number; text: string; rawLine: string }[] {
-    const result: { line: number; text: string; rawLine: string }[] = [];
+  ): PendingInstruction[] {
+    const result: PendingInstruction[] = [];
 
     for (const instr of instructions) {
       const trimmed = instr.text.trim().toUpperCase();
@@ -913,7 +1211,7 @@ export class Assembler {
       if (multiLineEquDefs.has(trimmed) && multiLineEquDefs.get(trimmed)!.length > 1) {
         const equLines = multiLineEquDefs.get(trimmed)!;
         for (const equLine of equLines) {
-          result.push({ line: instr.line, text: equLine, rawLine: instr.rawLine });
+          result.push({ ...instr, text: equLine });
         }
       } else {
         result.push(instr);
@@ -923,88 +1221,107 @@ export class Assembler {
     return result;
   }
 
-  private tokenizeLine(line: string): string[] {
-    const tokens: string[] = [];
-    let i = 0;
-    while (i < line.length) {
-      // Skip whitespace
-      while (i < line.length && (line[i] === ' ' || line[i] === '\t')) i++;
-      if (i >= line.length) break;
-
-      let token = '';
-      const ch = line[i];
-
-      if (ch === ',' || ch === '.' || ch === '#' || ch === '$' || ch === '@' || ch === '<' || ch === '>' || ch === '*' || ch === '{' || ch === '}') {
-        // Single char that merges with next token
-        token = ch;
-        i++;
-        // For addressing modes, consume trailing expression chars
-        if ('#$@<>*{}'.includes(ch)) {
-          // Just the mode character
-          tokens.push(token);
-          continue;
-        }
-        // For dot (modifier separator), consume alpha chars
-        if (ch === '.') {
-          while (i < line.length && /[A-Za-z]/.test(line[i])) {
-            token += line[i];
-            i++;
-          }
-          tokens.push(token);
-          continue;
-        }
-        tokens.push(token);
-        continue;
-      }
-
-      // Alphanumeric or underscore tokens (identifiers, opcodes, numbers)
-      if (/[A-Za-z0-9_]/.test(ch)) {
-        while (i < line.length && /[A-Za-z0-9_:]/.test(line[i])) {
-          token += line[i];
-          i++;
-        }
-        // Check for attached modifier like "MOV.I"
-        if (i < line.length && line[i] === '.') {
-          token += '.';
-          i++;
-          while (i < line.length && /[A-Za-z]/.test(line[i])) {
-            token += line[i];
-            i++;
-          }
-        }
-        tokens.push(token);
-        continue;
-      }
+  private isOpcode(token: string): boolean {
+    return (OPCODE_NAMES as readonly string[]).includes(token) || (token.includes('.') && (OPCODE_NAMES as readonly string[]).includes(token.split('.')[0]));
+  }
+}
 
-      // Multi-character operators: || and &&
-      if (ch === '|' && i + 1 < line.length && line[i + 1] === '|') {
-        tokens.push('||');
-        i += 2;
-        continue;
-      }
-      if (ch === '&' && i + 1 < line.length && line[i + 1] === '&') {
-        tokens.push('&&');
-        i += 2;
-        continue;
-      }
+/** The ICWS'94 default modifier for an instruction written without one. */
+export function defaultModifier(opcode: Opcode, aMode: AddressMode, bMode: AddressMode): Modifier {
+  switch (opcode) {
+    case Opcode.DAT:
+    case Opcode.NOP:
+      return Modifier.F;
+    case Opcode.MOV:
+    case Opcode.CMP:
+    case Opcode.SEQ:
+    case Opcode.SNE:
+      if (aMode === AddressMode.IMMEDIATE) return Modifier.AB;
+      if (bMode === AddressMode.IMMEDIATE) return Modifier.B;
+      return Modifier.I;
+    case Opcode.ADD:
+    case Opcode.SUB:
+    case Opcode.MUL:
+    case Opcode.DIV:
+    case Opcode.MOD:
+      if (aMode === AddressMode.IMMEDIATE) return Modifier.AB;
+      if (bMode === AddressMode.IMMEDIATE) return Modifier.B;
+      return Modifier.F;
+    case Opcode.SLT:
+    case Opcode.LDP:
+    case Opcode.STP:
+      if (aMode === AddressMode.IMMEDIATE) return Modifier.AB;
+      return Modifier.B;
+    default:
+      return Modifier.B;
+  }
+}
 
-      // Expression characters
-      if ('()+-/%!=|& '.includes(ch)) {
-        token = ch;
-        i++;
-        tokens.push(token);
-        continue;
-      }
+/** Values of the predefined Redcode constants (CORESIZE, PSPACESIZE, ...) for a set of options. */
+export function predefinedConstants(options?: Partial<SimulatorOptions>): Map<string, number> {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const predefined = new Map<string, number>();
+  predefined.set('CORESIZE', opts.coreSize);
+  predefined.set('MAXPROCESSES', opts.maxProcesses);
+  predefined.set('MAXCYCLES', opts.maxCycles);
+  predefined.set('MAXLENGTH', opts.maxLength);
+  predefined.set('MINDISTANCE', opts.minSeparation);
+  predefined.set('VERSION', 96);
+  predefined.set('WARRIORS', opts.warriors);
+  predefined.set('ROUNDS', opts.rounds);
+  predefined.set('PSPACESIZE', opts.pSpaceSize > 0 ? opts.pSpaceSize : computePSpaceSize(opts.coreSize));
+  // READLIMIT/WRITELIMIT: default to coreSize when 0 (matches C clparse.c:646-649)
+  predefined.set('READLIMIT', opts.readLimit || opts.coreSize);
+  predefined.set('WRITELIMIT', opts.writeLimit || opts.coreSize);
+  return predefined;
+}
 
-      // Unknown char, skip
-      i++;
-    }
-    return tokens;
+const INCLUDE_DIRECTIVE = /^\s*;\s*include\s+(?:"([^"]+)"|(\S+))/i;
+
+/** Map line numbers of include-expanded source back to the file and line they came from. */
+function relocate(result: AssembleResult, origins: LineOrigin[]): void {
+  const move = (item: { line: number; file?: string }): void => {
+    const origin = origins[item.line - 1];
+    if (!origin) return;
+    item.line = origin.line;
+    if (origin.file !== null) item.file = origin.file;
+  };
+  for (const message of result.messages) {
+    move(message);
+    message.related?.forEach(move);
   }
+  result.sourceMap.forEach(move);
+  result.symbols.labels.forEach(move);
+  result.symbols.equs.forEach(move);
+  result.symbols.forCounters.forEach(move);
+}
 
-  private isOpcode(token: string): boolean {
-    return (OPCODE_NAMES as readonly string[]).includes(token) || (token.includes('.') && (OPCODE_NAMES as readonly string[]).includes(token.split('.')[0]));
+/**
+ * Find a whole-word occurrence of token in text at or after `from`, ignoring
+ * case and whitespace (tokenized operands are re-joined with spaces).
+ * Returns the [start, end) offsets, or null.
+ */
+function findToken(text: string, token: string, from: number): [number, number] | null {
+  const needle = token.replace(/\s+/g, '').toUpperCase();
+  if (!needle) return null;
+  const isWord = (ch: string | undefined): boolean => ch !== undefined && /[A-Za-z0-9_]/.test(ch);
+  for (let start = from; start < text.length; start++) {
+    if (text[start].toUpperCase() !== needle[0]) continue;
+    if (isWord(needle[0]) && isWord(text[start - 1])) continue;
+    let pos = start;
+    let matched = 0;
+    while (matched < needle.length && pos < text.length) {
+      if (text[pos] === ' ' || text[pos] === '\t') pos++;
+      else if (text[pos].toUpperCase() === needle[matched]) {
+        pos++;
+        matched++;
+      } else break;
+    }
+    if (matched < needle.length) continue;
+    if (isWord(needle[needle.length - 1]) && isWord(text[pos])) continue;
+    return [start, pos];
   }
+  return null;
 }
 
 export function disassemble(inst: Instruction, coreSize: number): string {
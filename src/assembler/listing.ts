@@ -0,0 +1,53 @@
+import { type WarriorData } from '../types.js';
+import { disassemble, type SourceLocation, type LabelSymbol } from './index.js';
+
+export interface ListingInput {
+  warrior: WarriorData;
+  sourceMap: SourceLocation[];
+  /** Source text of the line each instruction came from, comments included */
+  sourceLines: string[];
+  labels: LabelSymbol[];
+  coreSize: number;
+}
+
+/**
+ * Format an assembled warrior as a listing: one row per instruction with its
+ * offset, attached labels, disassembly and originating source line. The entry
+ * point is marked with '>'.
+ */
+export function formatListing(input: ListingInput): string {
+  const { warrior, sourceMap, sourceLines, coreSize } = input;
+  const labelsAt = new Map<number, string[]>();
+  for (const label of input.labels) {
+    const names = labelsAt.get(label.offset) ?? [];
+    names.push(label.name.toLowerCase());
+    labelsAt.set(label.offset, names);
+  }
+
+  const rows = warrior.instructions.map((inst, i) => {
+    // Align operands after the longest OPCODE.MOD ("MOV.AB")
+    const code = disassemble(inst, coreSize);
+    const space = code.indexOf(' ');
+    return {
+      offset: String(i),
+      labels: (labelsAt.get(i) ?? []).join(' '),
+      code: `${code.substring(0, space).padEnd(6)} ${code.substring(space + 1)}`,
+      source: `${sourceMap[i].file ? `${sourceMap[i].file}:` : ''}${sourceMap[i].line}: ${sourceLines[i].trim()}`,
+    };
+  });
+  const width = (key: 'offset' | 'labels' | 'code'): number => Math.max(0, ...rows.map(r => r[key].length));
+  const offsetWidth = width('offset');
+  const labelWidth = width('labels');
+  const codeWidth = width('code');
+
+  const out = [
+    `Program "${warrior.name}" (length ${warrior.instructions.length}) by "${warrior.author}"`,
+    '',
+  ];
+  rows.forEach((row, i) => {
+    const marker = i === warrior.startOffset ? '>' : ' ';
+    const line = `${marker} ${row.offset.padStart(offsetWidth)}  ${row.labels.padEnd(labelWidth)}  ${row.code.padEnd(codeWidth)}  ; ${row.source}`;
+    out.push(line.trimEnd());
+  });
+  return out.join('\n') + '\n';
+}
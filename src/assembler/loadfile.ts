@@ -0,0 +1,185 @@
+import { type Instruction, type WarriorData, type SimulatorOptions, DEFAULT_OPTIONS, type Opcode, type Modifier, type AddressMode, OPCODE_NAMES, MODIFIER_NAMES, ADDRESS_MODE_SYMBOLS } from '../types.js';
+import { encodeOpcode } from '../constants.js';
+import { normalize } from '../utils/modular-arithmetic.js';
+import { type AssemblerMessage, type DiagnosticCode } from './index.js';
+
+export interface LoadFileResult {
+  success: boolean;
+  warrior: WarriorData | null;
+  messages: AssemblerMessage[];
+}
+
+/** Thrown inside the line parser; becomes an ERROR message for the line. */
+class LineError extends Error {
+  constructor(message: string, readonly column: number, readonly code: DiagnosticCode = 'SYNERR', readonly token?: string) {
+    super(message);
+  }
+}
+
+class LineReader {
+  pos = 0;
+
+  constructor(private text: string) {}
+
+  skipSpace(): void {
+    while (this.pos < this.text.length && (this.text[this.pos] === ' ' || this.text[this.pos] === '\t' || this.text[this.pos] === '\r')) this.pos++;
+  }
+
+  atEnd(): boolean {
+    this.skipSpace();
+    return this.pos >= this.text.length;
+  }
+
+  /** Describe the current position for error messages. */
+  here(): string {
+    const found = this.pos < this.text.length ? `'${this.text[this.pos]}'` : 'end of line';
+    return `at column ${this.pos + 1}, found ${found}`;
+  }
+
+  /** Error at the current position. */
+  error(message: string): LineError {
+    return new LineError(`${message} ${this.here()}`, this.pos + 1);
+  }
+
+  word(): string {
+    this.skipSpace();
+    const start = this.pos;
+    while (this.pos < this.text.length && /[A-Za-z]/.test(this.text[this.pos])) this.pos++;
+    return this.text.substring(start, this.pos);
+  }
+
+  expect(ch: string, what: string): void {
+    this.skipSpace();
+    if (this.text[this.pos] !== ch) throw this.error(`Expected ${what}`);
+    this.pos++;
+  }
+
+  mode(operand: string): AddressMode {
+    this.skipSpace();
+    const index = (ADDRESS_MODE_SYMBOLS as readonly string[]).indexOf(this.text[this.pos]);
+    if (index < 0) throw this.error(`Expected addressing mode for ${operand}`);
+    this.pos++;
+    return index as AddressMode;
+  }
+
+  number(what: string): number {
+    this.skipSpace();
+    const match = /^[+-]?\s*\d+/.exec(this.text.substring(this.pos));
+    if (!match) throw this.error(`Expected ${what}`);
+    this.pos += match[0].length;
+    return parseInt(match[0].replace(/\s+/g, ''), 10);
+  }
+}
+
+/**
+ * Parse a pMARS load file: fully explicit instructions such as
+ * `MOV.I $0, $1`, optional ORG/END/PIN with numeric values, and ;name,
+ * ;author and ;strategy comments. No labels, expressions or macros are
+ * accepted; every malformed line produces an ERROR with its column.
+ */
+export function parseLoadFile(text: string, options?: Partial<SimulatorOptions>): LoadFileResult {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const messages: AssemblerMessage[] = [];
+  const instructions: Instruction[] = [];
+  let name = 'Unknown';
+  let author = 'Anonymous';
+  let strategy = '';
+  let pin: number | null = null;
+  let org: number | null = null;
+  let end: number | null = null;
+
+  const lines = text.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const lineNum = i + 1;
+    const commentPos = lines[i].indexOf(';');
+    if (commentPos >= 0) {
+      const directive = lines[i].substring(commentPos + 1).trim();
+      const upper = directive.toUpperCase();
+      if (lines[i].substring(0, commentPos).trim() === '') {
+        if (upper.startsWith('NAME')) name = directive.substring(4).trim() || 'Unknown';
+        else if (upper.startsWith('AUTHOR')) author = directive.substring(6).trim() || 'Anonymous';
+        else if (upper.startsWith('STRATEGY')) strategy += (strategy ? '\n' : '') + directive.substring(8).trim();
+      }
+    }
+    const reader = new LineReader(commentPos >= 0 ? lines[i].substring(0, commentPos) : lines[i]);
+    if (reader.atEnd()) continue;
+
+    try {
+      const word = reader.word();
+      const upperWord = word.toUpperCase();
+      if (upperWord === 'ORG' || upperWord === 'PIN' || upperWord === 'END') {
+        const value = upperWord === 'END' && reader.atEnd() ? null : reader.number(`${upperWord} value`);
+        if (!reader.atEnd()) throw reader.error(`Unexpected text after ${upperWord} value`);
+        if (upperWord === 'ORG') org = value;
+        else if (upperWord === 'PIN') pin = value;
+        else {
+          end = value;
+          break;
+        }
+        continue;
+      }
+
+      const opcode = (OPCODE_NAMES as readonly string[]).indexOf(upperWord);
+      if (opcode < 0) {
+        throw word ? new LineError(`Unknown opcode '${word}'`, reader.pos - word.length + 1, 'OPCERR', word) : reader.error('Expected opcode');
+      }
+      reader.expect('.', `'.' and modifier after ${upperWord}`);
+      const modifierWord = reader.word();
+      const modifier = (MODIFIER_NAMES as readonly string[]).indexOf(modifierWord.toUpperCase());
+      if (modifier < 0) {
+        throw modifierWord
+          ? new LineError(`Unknown modifier '${modifierWord}'`, reader.pos - modifierWord.length + 1, 'MODERR', modifierWord)
+          : reader.error('Expected modifier');
+      }
+      const aMode = reader.mode('A-operand');
+      const aValue = reader.number('A-field number');
+      reader.expect(',', "',' between operands");
+      const bMode = reader.mode('B-operand');
+      const bValue = reader.number('B-field number');
+      if (!reader.atEnd()) throw reader.error('Unexpected text after B-operand');
+
+      instructions.push({
+        opcode: encodeOpcode(opcode as Opcode, modifier as Modifier),
+        aMode,
+        aValue: normalize(aValue, opts.coreSize),
+        bMode,
+        bValue: normalize(bValue, opts.coreSize),
+      });
+    } catch (e) {
+      if (!(e instanceof LineError)) throw e;
+      const endColumn = e.column + Math.max(e.token?.length ?? 1, 1);
+      messages.push({ type: 'ERROR', code: e.code, line: lineNum, column: e.column, endColumn, ...(e.token ? { token: e.token } : {}), text: e.message });
+    }
+  }
+
+  if (instructions.length === 0 && !messages.some(m => m.type === 'ERROR')) {
+    messages.push({ type: 'ERROR', code: 'EMPERR', line: 0, text: 'No instructions found' });
+  }
+  if (instructions.length > opts.maxLength) {
+    messages.push({ type: 'ERROR', code: 'LINERR', line: 0, text: `Warrior has ${instructions.length} instructions, limit is ${opts.maxLength}` });
+  }
+  if (org !== null && end !== null && end !== 0) {
+    messages.push({ type: 'WARNING', code: 'DOEERR', line: 0, text: 'END offset ignored, ORG already set' });
+  }
+  const start = org ?? end ?? 0;
+  if (instructions.length > 0 && (start < 0 || start >= instructions.length)) {
+    messages.push({ type: 'ERROR', code: 'OFSERR', line: 0, text: `Start offset ${start} is outside program bounds (0-${instructions.length - 1})` });
+  }
+
+  if (messages.some(m => m.type === 'ERROR')) {
+    return { success: false, warrior: null, messages };
+  }
+  return {
+    success: true,
+    warrior: {
+      instructions,
+      startOffset: normalize(start, opts.coreSize),
+      name,
+      author,
+      strategy,
+      pin,
+      warnings: messages.filter(m => m.type === 'WARNING').map(m => m.text),
+    },
+    messages,
+  };
+}
@@ -0,0 +1,85 @@
+/** A token of a Redcode line with its [start, end) offsets. */
+export interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Split a Redcode statement (comment already removed) into tokens:
+ * identifiers and numbers (with an attached `.modifier`), addressing-mode
+ * characters, commas, operators and parentheses. Unknown characters are skipped.
+ */
+export function tokenize(line: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  const push = (start: number, text: string): void => {
+    tokens.push({ text, start, end: i });
+  };
+  while (i < line.length) {
+    // Skip whitespace
+    while (i < line.length && (line[i] === ' ' || line[i] === '\t')) i++;
+    if (i >= line.length) break;
+
+    const start = i;
+    let token = '';
+    const ch = line[i];
+
+    if (ch === ',' || ch === '.' || ch === '#' || ch === '$' || ch === '@' || ch === '<' || ch === '>' || ch === '*' || ch === '{' || ch === '}') {
+      // Single char that merges with next token
+      token = ch;
+      i++;
+      // For dot (modifier separator), consume alpha chars
+      if (ch === '.') {
+        while (i < line.length && /[A-Za-z]/.test(line[i])) {
+          token += line[i];
+          i++;
+        }
+      }
+      push(start, token);
+      continue;
+    }
+
+    // Alphanumeric or underscore tokens (identifiers, opcodes, numbers)
+    if (/[A-Za-z0-9_]/.test(ch)) {
+      while (i < line.length && /[A-Za-z0-9_:]/.test(line[i])) {
+        token += line[i];
+        i++;
+      }
+      // Check for attached modifier like "MOV.I"
+      if (i < line.length && line[i] === '.') {
+        token += '.';
+        i++;
+        while (i < line.length && /[A-Za-z]/.test(line[i])) {
+          token += line[i];
+          i++;
+        }
+      }
+      push(start, token);
+      continue;
+    }
+
+    // Multi-character operators: || and &&
+    if ((ch === '|' || ch === '&') && line[i + 1] === ch) {
+      i += 2;
+      push(start, ch + ch);
+      continue;
+    }
+
+    // Expression characters
+    if ('()+-/%!=|& '.includes(ch)) {
+      i++;
+      push(start, ch);
+      continue;
+    }
+
+    // Unknown char, skip
+    i++;
+  }
+  return tokens;
+}
+
+/** Token texts of a Redcode statement. */
+export function tokenizeLine(line: string): string[] {
+  return tokenize(line).map(token => token.text);
+}
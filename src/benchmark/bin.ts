@@ -0,0 +1,5 @@
+#!/usr/bin/env node
+import { runBenchmarkCli } from './cli.js';
+
+// Entry point of the `pmars-ts-bench` command.
+process.exitCode = runBenchmarkCli(process.argv.slice(2), { stdout: process.stdout, stderr: process.stderr });
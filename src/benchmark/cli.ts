@@ -0,0 +1,103 @@
+import { writeFileSync } from 'node:fs';
+import { type SimulatorOptions } from '../types.js';
+import { Benchmark, formatBenchmarkTable, benchmarkToJSON, benchmarkToCSV } from './index.js';
+import { loadWarriorFile, loadBenchmarkOpponents } from './files.js';
+
+export interface BenchmarkCliArgs {
+  warrior: string;
+  /** Opponent files and directories */
+  opponents: string[];
+  options: Partial<SimulatorOptions>;
+  rounds: number;
+  /** File for JSON output, '-' for stdout */
+  json?: string;
+  /** File for CSV output, '-' for stdout */
+  csv?: string;
+}
+
+const USAGE = `Usage: pmars-ts-bench [options] warrior.red opponent.red|directory ...
+
+  -r <n>       rounds per opponent (default 100)
+  -s <n>       core size
+  -c <n>       cycles before a tie
+  -p <n>       max processes
+  -l <n>       max warrior length
+  -d <n>       min distance between warriors
+  -S <n>       P-space size
+  -F <n>       fixed position of the opponent
+  -f           fixed position series
+  -8           ICWS'88 mode
+  --seed <n>   random seed
+  --json <f>   write results as JSON to f ('-' for stdout)
+  --csv <f>    write results as CSV to f ('-' for stdout)
+`;
+
+const NUMERIC_FLAGS: Record<string, keyof SimulatorOptions> = {
+  '-s': 'coreSize', '-c': 'maxCycles', '-p': 'maxProcesses', '-l': 'maxLength',
+  '-d': 'minSeparation', '-S': 'pSpaceSize', '-F': 'fixedPosition', '--seed': 'seed',
+};
+
+/** Parse pmars-style command-line flags; throws on anything it does not understand. */
+export function parseBenchmarkArgs(args: string[]): BenchmarkCliArgs {
+  const options: Partial<SimulatorOptions> = {};
+  const positional: string[] = [];
+  let rounds = 100;
+  let json: string | undefined;
+  let csv: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = (): string => {
+      if (i + 1 >= args.length) throw new Error(`${arg} needs a value`);
+      return args[++i];
+    };
+    const number = (): number => {
+      const text = value();
+      const n = Number(text);
+      if (!Number.isInteger(n)) throw new Error(`${arg} needs an integer, got "${text}"`);
+      return n;
+    };
+    if (arg === '-r') {
+      rounds = number();
+      if (rounds < 1) throw new Error(`-r needs a positive number of rounds, got ${rounds}`);
+    }
+    else if (arg in NUMERIC_FLAGS) (options as Record<string, number>)[NUMERIC_FLAGS[arg]] = number();
+    else if (arg === '-f') options.fixedSeries = true;
+    else if (arg === '-8') options.icws88 = true;
+    else if (arg === '--json') json = value();
+    else if (arg === '--csv') csv = value();
+    else if (arg.startsWith('-') && arg !== '-') throw new Error(`Unknown option ${arg}`);
+    else positional.push(arg);
+  }
+  if (positional.length < 2) throw new Error('A warrior and at least one opponent are required');
+  const [warrior, ...opponents] = positional;
+  return { warrior, opponents, options, rounds, json, csv };
+}
+
+/**
+ * Run the `pmars-ts-bench` command and return its exit code. Prints the
+ * results table unless JSON or CSV goes to stdout.
+ */
+export function runBenchmarkCli(args: string[], io: { stdout: NodeJS.WritableStream; stderr: NodeJS.WritableStream }): number {
+  if (args.includes('-h') || args.includes('--help')) {
+    io.stdout.write(USAGE);
+    return 0;
+  }
+  try {
+    const parsed = parseBenchmarkArgs(args);
+    const warrior = loadWarriorFile(parsed.warrior, parsed.options);
+    const opponents = loadBenchmarkOpponents(parsed.opponents, parsed.options);
+    if (opponents.length === 0) throw new Error('No opponent .red files found');
+    const result = new Benchmark(warrior, parsed.options).run(opponents, parsed.rounds);
+
+    const outputs: [string | undefined, string][] = [[parsed.json, benchmarkToJSON(result)], [parsed.csv, benchmarkToCSV(result)]];
+    for (const [target, text] of outputs) {
+      if (target === '-') io.stdout.write(text);
+      else if (target !== undefined) writeFileSync(target, text);
+    }
+    if (parsed.json !== '-' && parsed.csv !== '-') io.stdout.write(formatBenchmarkTable(result));
+    return 0;
+  } catch (e) {
+    io.stderr.write(`pmars-ts-bench: ${e instanceof Error ? e.message : String(e)}\nRun pmars-ts-bench --help for usage.\n`);
+    return 1;
+  }
+}
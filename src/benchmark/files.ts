@@ -0,0 +1,44 @@
+import { readFileSync, readdirSync, statSync } from 'node:fs';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import { type WarriorData, type SimulatorOptions } from '../types.js';
+import { Assembler } from '../assembler/index.js';
+import { type BenchmarkOpponent } from './index.js';
+
+/**
+ * Assemble a Redcode file. `;include` paths are resolved relative to the
+ * file that includes them. Throws with the first error if assembly fails.
+ */
+export function loadWarriorFile(path: string, options?: Partial<SimulatorOptions>): WarriorData {
+  const assembler = new Assembler(options, {
+    resolveInclude: (include, from) => {
+      const target = resolve(dirname(from ?? path), include);
+      try {
+        return readFileSync(target, 'utf-8');
+      } catch {
+        return null;
+      }
+    },
+  });
+  const result = assembler.assemble(readFileSync(path, 'utf-8'));
+  if (!result.success || !result.warrior) {
+    const error = result.messages.find(m => m.type === 'ERROR');
+    throw new Error(`Cannot assemble ${path}${error ? `: line ${error.line}: ${error.text}` : ''}`);
+  }
+  return result.warrior;
+}
+
+/**
+ * Load benchmark opponents from `.red` files and directories of them
+ * (not recursive, sorted by file name). Opponents are named after their
+ * `;name`, or the file name when they have none.
+ */
+export function loadBenchmarkOpponents(paths: string[], options?: Partial<SimulatorOptions>): BenchmarkOpponent[] {
+  const files = paths.flatMap(path => statSync(path).isDirectory()
+    ? readdirSync(path).filter(name => extname(name).toLowerCase() === '.red').sort().map(name => join(path, name))
+    : [path]);
+  return files.map(file => {
+    const warrior = loadWarriorFile(file, options);
+    const name = warrior.name !== 'Unknown' ? warrior.name : basename(file, extname(file));
+    return { name, warrior, file };
+  });
+}
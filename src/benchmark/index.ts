@@ -0,0 +1,118 @@
+import { type WarriorData, type SimulatorOptions, DEFAULT_OPTIONS } from '../types.js';
+import { Simulator } from '../simulator/index.js';
+
+export interface BenchmarkOpponent {
+  name: string;
+  warrior: WarriorData;
+  /** File the opponent was loaded from, if any */
+  file?: string;
+}
+
+export interface BenchmarkEntry {
+  opponent: string;
+  file?: string;
+  rounds: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  /** 3 * wins + ties per 100 rounds */
+  score: number;
+}
+
+export interface BenchmarkResult {
+  warrior: string;
+  /** Rounds fought against each opponent */
+  rounds: number;
+  entries: BenchmarkEntry[];
+  wins: number;
+  losses: number;
+  ties: number;
+  /** Mean of the per-opponent scores */
+  average: number;
+}
+
+/**
+ * Runs one warrior against a set of opponents, a fixed number of rounds
+ * each, and tabulates wins, losses, ties and score per opponent.
+ */
+export class Benchmark {
+  private options: Partial<SimulatorOptions>;
+
+  constructor(private warrior: WarriorData, options?: Partial<SimulatorOptions>) {
+    this.options = { ...options, warriors: 2 };
+  }
+
+  /** Fight every opponent; `rounds` defaults to the options' `rounds`. */
+  run(opponents: BenchmarkOpponent[], rounds?: number): BenchmarkResult {
+    const numRounds = rounds ?? this.options.rounds ?? DEFAULT_OPTIONS.rounds;
+    const entries = opponents.map(opponent => this.fight(opponent, numRounds));
+    const sum = (key: 'wins' | 'losses' | 'ties' | 'score'): number => entries.reduce((total, e) => total + e[key], 0);
+    return {
+      warrior: this.warrior.name,
+      rounds: numRounds,
+      entries,
+      wins: sum('wins'),
+      losses: sum('losses'),
+      ties: sum('ties'),
+      average: entries.length > 0 ? sum('score') / entries.length : 0,
+    };
+  }
+
+  private fight(opponent: BenchmarkOpponent, rounds: number): BenchmarkEntry {
+    const sim = new Simulator(this.options);
+    sim.loadWarriors([this.warrior, opponent.warrior]);
+    const { wins, losses, ties, score } = sim.runBattle(rounds).warriors[0];
+    return {
+      opponent: opponent.name,
+      ...(opponent.file !== undefined ? { file: opponent.file } : {}),
+      rounds,
+      wins,
+      losses,
+      ties,
+      score: rounds > 0 ? score * 100 / rounds : 0,
+    };
+  }
+}
+
+/** Plain-text table of a benchmark with a total row. */
+export function formatBenchmarkTable(result: BenchmarkResult): string {
+  const rows = [
+    ...result.entries.map(e => [e.opponent, String(e.wins), String(e.losses), String(e.ties), e.score.toFixed(1)]),
+    ['Total', String(result.wins), String(result.losses), String(result.ties), result.average.toFixed(1)],
+  ];
+  const header = ['Opponent', 'W', 'L', 'T', 'Score'];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+  const line = (cells: string[]): string =>
+    cells.map((cell, i) => i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i])).join('  ');
+  return [
+    `${result.warrior}: ${result.rounds} rounds per opponent`,
+    '',
+    line(header),
+    ...rows.slice(0, -1).map(line),
+    widths.map(w => '-'.repeat(w)).join('  '),
+    line(rows[rows.length - 1]),
+  ].join('\n') + '\n';
+}
+
+export function benchmarkToJSON(result: BenchmarkResult): string {
+  return JSON.stringify(result, null, 2) + '\n';
+}
+
+/** CSV with one row per opponent and a final Total row carrying the average score. */
+export function benchmarkToCSV(result: BenchmarkResult): string {
+  const rows = [
+    ['opponent', 'file', 'rounds', 'wins', 'losses', 'ties', 'score'],
+    ...result.entries.map(e => [e.opponent, e.file ?? '', e.rounds, e.wins, e.losses, e.ties, round(e.score)]),
+    ['Total', '', result.rounds * result.entries.length, result.wins, result.losses, result.ties, round(result.average)],
+  ];
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,250 @@
+import { type WarriorData, type SimulatorOptions } from '../types.js';
+import { Assembler, type AssemblerMessage } from '../assembler/index.js';
+import { Benchmark } from '../benchmark/index.js';
+
+/** Bumped whenever the hill state layout changes incompatibly. */
+export const HILL_STATE_VERSION = 1;
+
+export interface HillConfig {
+  name: string;
+  /** Number of warriors kept on the hill */
+  size: number;
+  /** Rounds of each battle */
+  rounds: number;
+  /** Options used to assemble challengers and run battles */
+  options: Partial<SimulatorOptions>;
+}
+
+export interface HillResident {
+  /** Unique for the life of the hill; never reused */
+  id: number;
+  name: string;
+  author: string;
+  source: string;
+  warrior: WarriorData;
+  /** Successful challenges survived since entering the hill */
+  age: number;
+  /** Number of the challenge that brought the warrior onto the hill */
+  entered: number;
+}
+
+export interface MatchRecord {
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+export interface WarriorRef {
+  id: number;
+  name: string;
+  author: string;
+}
+
+export interface Standing extends WarriorRef, MatchRecord {
+  rank: number;
+  age: number;
+  /** 3 * wins + ties per 100 rounds, over all battles against the rest of the hill */
+  score: number;
+}
+
+export interface HillReport {
+  challenge: number;
+  challenger: WarriorRef;
+  /** Rank the challenger took, or null if it was pushed off straight away */
+  rank: number | null;
+  pushedOff: WarriorRef[];
+  /** The hill after the challenge */
+  standings: Standing[];
+}
+
+/** Everything a hill needs to carry on later; JSON-safe. */
+export interface HillState {
+  version: number;
+  config: HillConfig;
+  /** Challenges run so far */
+  challenges: number;
+  nextId: number;
+  /** Residents in rank order */
+  residents: HillResident[];
+  /** results[a][b] is warrior a's record against warrior b, by id */
+  results: Record<number, Record<number, MatchRecord>>;
+  history: HillReport[];
+}
+
+export interface ChallengeResult {
+  success: boolean;
+  /** Assembler messages for the challenger */
+  messages: AssemblerMessage[];
+  /** Null when the challenger failed to assemble */
+  report: HillReport | null;
+}
+
+/**
+ * A king-of-the-hill: a ranked list of warriors, each of which has fought
+ * every other for `rounds` rounds. A challenger fights every resident, the
+ * hill is re-ranked by score and the warriors below `size` are pushed off.
+ */
+export class Hill {
+  private state: HillState;
+
+  constructor(config: HillConfig) {
+    validateConfig(config);
+    this.state = {
+      version: HILL_STATE_VERSION,
+      config: { ...config, options: { ...config.options } },
+      challenges: 0,
+      nextId: 1,
+      residents: [],
+      results: {},
+      history: [],
+    };
+  }
+
+  /** Continue a hill from a state returned by getState(). */
+  static fromState(state: HillState): Hill {
+    if (state.version !== HILL_STATE_VERSION) {
+      throw new Error(`Unsupported hill state version ${state.version} (expected ${HILL_STATE_VERSION})`);
+    }
+    const hill = new Hill(state.config);
+    hill.state = clone(state);
+    return hill;
+  }
+
+  getState(): HillState {
+    return clone(this.state);
+  }
+
+  get config(): HillConfig {
+    return clone(this.state.config);
+  }
+
+  /**
+   * Assemble a challenger with the hill's options and fight it against every
+   * resident. Nothing changes if it fails to assemble.
+   */
+  submit(source: string): ChallengeResult {
+    const { config } = this.state;
+    const assembled = new Assembler(config.options).assemble(source);
+    if (!assembled.success || !assembled.warrior) {
+      return { success: false, messages: assembled.messages, report: null };
+    }
+    const warrior = assembled.warrior;
+    const challenge = ++this.state.challenges;
+    const challenger: HillResident = {
+      id: this.state.nextId++, name: warrior.name, author: warrior.author, source, warrior, age: 0, entered: challenge,
+    };
+
+    const opponents = this.state.residents.map(r => ({ name: r.name, warrior: r.warrior }));
+    const { entries } = new Benchmark(warrior, config.options).run(opponents, config.rounds);
+    const row: Record<number, MatchRecord> = {};
+    entries.forEach(({ wins, losses, ties }, i) => {
+      const resident = this.state.residents[i];
+      row[resident.id] = { wins, losses, ties };
+      this.state.results[resident.id][challenger.id] = { wins: losses, losses: wins, ties };
+    });
+    this.state.results[challenger.id] = row;
+    this.state.residents.push(challenger);
+
+    // Rank with the challenger in, push off the lowest, then rank the survivors without them
+    this.rank();
+    const pushedOff = this.state.residents.splice(config.size).map(ref);
+    for (const { id } of pushedOff) {
+      delete this.state.results[id];
+      for (const other of Object.values(this.state.results)) delete other[id];
+    }
+    this.rank();
+
+    const entered = this.state.residents.includes(challenger);
+    if (entered) {
+      for (const resident of this.state.residents) {
+        if (resident !== challenger) resident.age++;
+      }
+    }
+    const report: HillReport = {
+      challenge,
+      challenger: ref(challenger),
+      rank: entered ? this.state.residents.indexOf(challenger) + 1 : null,
+      pushedOff,
+      standings: this.standings(),
+    };
+    this.state.history.push(report);
+    return { success: true, messages: assembled.messages, report: clone(report) };
+  }
+
+  /** Current residents with their totals against the rest of the hill, best first. */
+  standings(): Standing[] {
+    return this.state.residents.map((resident, i) => ({ rank: i + 1, ...ref(resident), age: resident.age, ...this.totals(resident.id) }));
+  }
+
+  /** Record of warrior `a` against warrior `b`, or null if they have not fought. */
+  getResult(a: number, b: number): MatchRecord | null {
+    const record = this.state.results[a]?.[b];
+    return record ? { ...record } : null;
+  }
+
+  /** Results matrix of the current residents in rank order; null on the diagonal. */
+  resultMatrix(): (MatchRecord | null)[][] {
+    return this.state.residents.map(a => this.state.residents.map(b => this.getResult(a.id, b.id)));
+  }
+
+  history(): HillReport[] {
+    return clone(this.state.history);
+  }
+
+  private totals(id: number): MatchRecord & { score: number } {
+    const records = Object.values(this.state.results[id] ?? {});
+    const sum = (key: keyof MatchRecord): number => records.reduce((total, r) => total + r[key], 0);
+    const wins = sum('wins');
+    const ties = sum('ties');
+    const rounds = records.length * this.state.config.rounds;
+    return { wins, losses: sum('losses'), ties, score: rounds > 0 ? (3 * wins + ties) * 100 / rounds : 0 };
+  }
+
+  /** Sort residents by score; older warriors win ties. */
+  private rank(): void {
+    const scores = new Map(this.state.residents.map(r => [r.id, this.totals(r.id).score]));
+    this.state.residents.sort((a, b) => scores.get(b.id)! - scores.get(a.id)! || a.id - b.id);
+  }
+}
+
+/** KOTH-style standings table: rank, %W/%L/%T, name, author, score and age. */
+export function formatHillStandings(standings: Standing[]): string {
+  const percent = (value: number, total: number): string => (total > 0 ? value * 100 / total : 0).toFixed(1).padStart(5);
+  const nameWidth = Math.max(4, ...standings.map(s => s.name.length));
+  const authorWidth = Math.max(6, ...standings.map(s => s.author.length));
+  const lines = [` #  ${'%W'.padStart(5)}/${'%L'.padStart(5)}/${'%T'.padStart(5)}  ${'Name'.padEnd(nameWidth)}  ${'Author'.padEnd(authorWidth)}  Score  Age`];
+  for (const s of standings) {
+    const total = s.wins + s.losses + s.ties;
+    lines.push(`${String(s.rank).padStart(2)}  ${percent(s.wins, total)}/${percent(s.losses, total)}/${percent(s.ties, total)}  ` +
+      `${s.name.padEnd(nameWidth)}  ${s.author.padEnd(authorWidth)}  ${s.score.toFixed(1).padStart(5)}  ${String(s.age).padStart(3)}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/** One line on how a challenge went, followed by the standings after it. */
+export function formatHillReport(report: HillReport): string {
+  const who = (w: WarriorRef): string => `${w.name} by ${w.author}`;
+  const outcome = report.rank !== null ? `entered the hill at rank ${report.rank}` : 'did not make the hill';
+  const pushed = report.pushedOff.filter(w => w.id !== report.challenger.id);
+  const summary = `Challenge ${report.challenge}: ${who(report.challenger)} ${outcome}` +
+    (pushed.length > 0 ? `; pushed off ${pushed.map(who).join(', ')}` : '');
+  return `${summary}\n\n${formatHillStandings(report.standings)}`;
+}
+
+/** Deep copy of JSON-safe data, identical to what a save and load would give back. */
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+function ref(warrior: WarriorRef): WarriorRef {
+  return { id: warrior.id, name: warrior.name, author: warrior.author };
+}
+
+function validateConfig(config: HillConfig): void {
+  if (!Number.isInteger(config.size) || config.size < 1) {
+    throw new Error(`Hill size must be a positive integer, got ${config.size}`);
+  }
+  if (!Number.isInteger(config.rounds) || config.rounds < 1) {
+    throw new Error(`Hill rounds must be a positive integer, got ${config.rounds}`);
+  }
+}
@@ -0,0 +1,18 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { Hill, type HillConfig, type HillState } from './index.js';
+
+export function loadHill(path: string): Hill {
+  return Hill.fromState(JSON.parse(readFileSync(path, 'utf-8')) as HillState);
+}
+
+/** Write the hill's state as JSON. The file is replaced in one step, so a crash never leaves half a hill. */
+export function saveHill(hill: Hill, path: string): void {
+  const temp = `${path}.tmp`;
+  writeFileSync(temp, JSON.stringify(hill.getState(), null, 2) + '\n');
+  renameSync(temp, path);
+}
+
+/** Load the hill saved at `path`, or start a new one with `config` if there is none. */
+export function openHill(path: string, config: HillConfig): Hill {
+  return existsSync(path) ? loadHill(path) : new Hill(config);
+}
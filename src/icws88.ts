@@ -0,0 +1,73 @@
+import { Opcode, Modifier, AddressMode, OPCODE_NAMES, ADDRESS_MODE_SYMBOLS, type Instruction } from './types.js';
+import { decodeOpcode } from './constants.js';
+
+// ICWS'88 rules shared by the assembler (pMARS -8) and the simulator.
+
+const { IMMEDIATE, DIRECT, B_INDIRECT, B_PREDECR } = AddressMode;
+const ANY = [IMMEDIATE, DIRECT, B_INDIRECT, B_PREDECR];
+const NOT_IMMEDIATE = [DIRECT, B_INDIRECT, B_PREDECR];
+
+/** Legal [A-modes, B-modes] per '88 opcode. */
+const LEGAL_MODES: ReadonlyMap<Opcode, readonly [AddressMode[], AddressMode[]]> = new Map([
+  [Opcode.DAT, [[IMMEDIATE, B_PREDECR], [IMMEDIATE, B_PREDECR]]],
+  [Opcode.MOV, [ANY, NOT_IMMEDIATE]],
+  [Opcode.ADD, [ANY, NOT_IMMEDIATE]],
+  [Opcode.SUB, [ANY, NOT_IMMEDIATE]],
+  [Opcode.CMP, [ANY, NOT_IMMEDIATE]],
+  [Opcode.SLT, [ANY, NOT_IMMEDIATE]],
+  [Opcode.JMP, [NOT_IMMEDIATE, ANY]],
+  [Opcode.SPL, [NOT_IMMEDIATE, ANY]],
+  [Opcode.JMZ, [NOT_IMMEDIATE, ANY]],
+  [Opcode.JMN, [NOT_IMMEDIATE, ANY]],
+  [Opcode.DJN, [NOT_IMMEDIATE, ANY]],
+]);
+
+export function isIcws88Opcode(opcode: Opcode): boolean {
+  return LEGAL_MODES.has(opcode);
+}
+
+export function isIcws88Mode(mode: AddressMode): boolean {
+  return ANY.includes(mode);
+}
+
+/** The '94 modifier that reproduces an '88 instruction's behavior. */
+export function defaultModifier88(opcode: Opcode, aMode: AddressMode): Modifier {
+  switch (opcode) {
+    case Opcode.DAT:
+      return Modifier.F;
+    case Opcode.MOV:
+    case Opcode.CMP:
+      return aMode === IMMEDIATE ? Modifier.AB : Modifier.I;
+    case Opcode.ADD:
+    case Opcode.SUB:
+      return aMode === IMMEDIATE ? Modifier.AB : Modifier.F;
+    case Opcode.SLT:
+      return aMode === IMMEDIATE ? Modifier.AB : Modifier.B;
+    default:
+      return Modifier.B;
+  }
+}
+
+/** Describe why an opcode/mode combination is illegal in ICWS'88, or return null. */
+export function checkIcws88Modes(opcode: Opcode, aMode: AddressMode, bMode: AddressMode): string | null {
+  const legal = LEGAL_MODES.get(opcode);
+  const name = OPCODE_NAMES[opcode];
+  if (!legal) return `${name} is not an ICWS'88 opcode`;
+  if (!legal[0].includes(aMode)) return `A-mode '${ADDRESS_MODE_SYMBOLS[aMode]}' is not allowed for ${name} in ICWS'88`;
+  if (!legal[1].includes(bMode)) return `B-mode '${ADDRESS_MODE_SYMBOLS[bMode]}' is not allowed for ${name} in ICWS'88`;
+  return null;
+}
+
+/**
+ * Check an assembled instruction against ICWS'88: '88 opcode, legal modes, and
+ * the modifier an '88 assembler would have chosen. Returns a reason or null.
+ */
+export function checkIcws88Instruction(inst: Instruction): string | null {
+  const { opcode, modifier } = decodeOpcode(inst.opcode);
+  const modeError = checkIcws88Modes(opcode, inst.aMode, inst.bMode);
+  if (modeError) return modeError;
+  if (modifier !== defaultModifier88(opcode, inst.aMode)) {
+    return `${OPCODE_NAMES[opcode]} has a modifier that ICWS'88 cannot express`;
+  }
+  return null;
+}
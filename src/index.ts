@@ -1,12 +1,34 @@
 // Direct pmars API
 export { Simulator } from './simulator/index.js';
-export type { CoreAccessEvent, TaskCountEvent, RoundEndEvent, SimulatorEventListener, RoundResult } from './simulator/index.js';
+export type { CoreAccessEvent, TaskCountEvent, RoundEndEvent, SimulatorEventListener, RoundResult, TracedStepResult, RunAsyncOptions, RunProgress, AsyncRunResult, RoundPlan, RunUntilResult } from './simulator/index.js';
+export type { SimulatorView, WarriorView } from './simulator/view.js';
+export type { StepTrace, DecodedInstruction, RegisterValues, CellWrite, PSpaceWrite, ProcessEffect } from './simulator/trace.js';
+export { buildBattleResult, mergeBattleResults } from './simulator/results.js';
+export type { BattleResult, WarriorBattleResult, BattleTally } from './simulator/results.js';
+export type { Breakpoint, BreakpointHit, BreakResult } from './simulator/breakpoints.js';
+export { SNAPSHOT_VERSION } from './simulator/snapshot.js';
+export type { SimulatorSnapshot, WarriorSnapshot, PSpaceSnapshot } from './simulator/snapshot.js';
 export { Core } from './simulator/core.js';
 export { SimWarrior } from './simulator/warrior.js';
 export { PSpace, computePSpaceSize } from './simulator/pspace.js';
-export { Assembler, disassemble } from './assembler/index.js';
-export type { AssembleResult, AssemblerMessage } from './assembler/index.js';
+export { Assembler, disassemble, defaultModifier, predefinedConstants } from './assembler/index.js';
+export type { AssembleResult, AssemblerMessage, DiagnosticCode, RelatedLocation, AssemblerConfig, IncludeResolver, SourceLocation, ForIteration, SymbolTable, LabelSymbol, EquSymbol, ForCounterSymbol } from './assembler/index.js';
+export { formatListing } from './assembler/listing.js';
+export type { ListingInput } from './assembler/listing.js';
+export { decompileWarrior } from './assembler/decompile.js';
+export type { DecompileOptions } from './assembler/decompile.js';
+export { formatRedcode } from './assembler/format.js';
+export type { FormatOptions } from './assembler/format.js';
+export { parseLoadFile } from './assembler/loadfile.js';
+export type { LoadFileResult } from './assembler/loadfile.js';
 export { ExpressionEvaluator } from './assembler/expression.js';
+export { classifyWarrior } from './analysis/classify.js';
+export type { Strategy, ScoredStrategy, ClassifyOptions, Classification, Evidence, StaticFeatures, DynamicFeatures } from './analysis/classify.js';
+export { Benchmark, formatBenchmarkTable, benchmarkToJSON, benchmarkToCSV } from './benchmark/index.js';
+export type { BenchmarkOpponent, BenchmarkEntry, BenchmarkResult } from './benchmark/index.js';
+export { Hill, HILL_STATE_VERSION, formatHillStandings, formatHillReport } from './hill/index.js';
+export type { HillConfig, HillResident, HillState, HillReport, MatchRecord, Standing, WarriorRef, ChallengeResult } from './hill/index.js';
+export { checkIcws88Instruction, checkIcws88Modes, defaultModifier88 } from './icws88.js';
 
 // Types and enums
 export { Opcode, Modifier, AddressMode, DEFAULT_OPTIONS, OPCODE_NAMES, MODIFIER_NAMES, ADDRESS_MODE_SYMBOLS } from './types.js';
@@ -17,3 +39,5 @@ export { encodeOpcode, decodeOpcode, createInstruction, INITIAL_INSTRUCTION } fr
 export { addMod, subMod, normalize, mulMod } from './utils/modular-arithmetic.js';
 export { CircularQueue } from './utils/circular-queue.js';
 export { rng } from './utils/rng.js';
+export { findSteps, rateStep, impStep, impRings } from './utils/optima.js';
+export type { StepOptions, StepRating, ImpRing } from './utils/optima.js';
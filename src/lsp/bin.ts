@@ -0,0 +1,5 @@
+#!/usr/bin/env node
+import { startLanguageServer } from './server.js';
+
+// Entry point of the `pmars-ts-lsp` command: a Redcode language server on stdio.
+startLanguageServer(process.stdin, process.stdout, { onExit: code => process.exit(code) });
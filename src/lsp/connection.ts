@@ -0,0 +1,55 @@
+import { type Message } from './protocol.js';
+
+const HEADER_END = '\r\n\r\n';
+
+/**
+ * JSON-RPC over a byte stream with LSP's `Content-Length` framing.
+ * Malformed frames are reported through onError and skipped.
+ */
+export class MessageConnection {
+  private buffer = Buffer.alloc(0);
+
+  constructor(
+    private input: NodeJS.ReadableStream,
+    private output: NodeJS.WritableStream,
+  ) {}
+
+  listen(onMessage: (message: Message) => void, onError: (error: Error) => void, onClose?: () => void): void {
+    this.input.on('data', (chunk: Buffer | string) => {
+      this.buffer = Buffer.concat([this.buffer, typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk]);
+      let message: Message | null;
+      while ((message = this.next(onError)) !== null) onMessage(message);
+    });
+    if (onClose) this.input.on('end', onClose);
+  }
+
+  send(message: Message): void {
+    const body = JSON.stringify(message);
+    this.output.write(`Content-Length: ${Buffer.byteLength(body, 'utf8')}${HEADER_END}${body}`);
+  }
+
+  /** Take the next complete message off the buffer, or null if more data is needed. */
+  private next(onError: (error: Error) => void): Message | null {
+    for (;;) {
+      const headerEnd = this.buffer.indexOf(HEADER_END);
+      if (headerEnd < 0) return null;
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const length = /Content-Length:\s*(\d+)/i.exec(header);
+      if (!length) {
+        this.buffer = this.buffer.subarray(headerEnd + HEADER_END.length);
+        onError(new Error(`Missing Content-Length header: ${header}`));
+        continue;
+      }
+      const start = headerEnd + HEADER_END.length;
+      const end = start + parseInt(length[1], 10);
+      if (this.buffer.length < end) return null;
+      const body = this.buffer.subarray(start, end).toString('utf8');
+      this.buffer = this.buffer.subarray(end);
+      try {
+        return JSON.parse(body) as Message;
+      } catch {
+        onError(new Error(`Invalid JSON message: ${body}`));
+      }
+    }
+  }
+}
@@ -0,0 +1,76 @@
+// The subset of the Language Server Protocol used by the Redcode server.
+// Lines and characters are 0-based, characters count UTF-16 code units.
+
+export interface Position {
+  line: number;
+  character: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export interface Location {
+  uri: string;
+  range: Range;
+}
+
+export const DiagnosticSeverity = { Error: 1, Warning: 2, Information: 3 } as const;
+
+export interface Diagnostic {
+  range: Range;
+  severity: number;
+  code: string;
+  source: string;
+  message: string;
+  relatedInformation?: { location: Location; message: string }[];
+}
+
+export interface Hover {
+  contents: { kind: 'markdown' | 'plaintext'; value: string };
+  range: Range;
+}
+
+export const CompletionItemKind = { Variable: 6, Keyword: 14, Constant: 21, EnumMember: 20 } as const;
+
+export interface CompletionItem {
+  label: string;
+  kind: number;
+  detail?: string;
+}
+
+export interface FoldingRange {
+  startLine: number;
+  endLine: number;
+}
+
+export interface RequestMessage {
+  jsonrpc: '2.0';
+  id: number | string;
+  method: string;
+  params?: unknown;
+}
+
+export interface NotificationMessage {
+  jsonrpc: '2.0';
+  method: string;
+  params?: unknown;
+}
+
+export interface ResponseMessage {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export type Message = RequestMessage | NotificationMessage | ResponseMessage;
+
+export const ErrorCodes = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InternalError: -32603,
+  ServerNotInitialized: -32002,
+} as const;
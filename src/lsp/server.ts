@@ -0,0 +1,149 @@
+import { type SimulatorOptions } from '../types.js';
+import { type AssemblerConfig } from '../assembler/index.js';
+import { MessageConnection } from './connection.js';
+import { RedcodeLanguageService } from './service.js';
+import { type Message, type RequestMessage, type Position, ErrorCodes } from './protocol.js';
+
+export interface LanguageServerOptions {
+  /** Simulator options used when assembling; overridden by the client's initializationOptions */
+  options?: Partial<SimulatorOptions>;
+  config?: AssemblerConfig;
+  /** Called on the `exit` notification with the exit code LSP prescribes */
+  onExit?: (code: number) => void;
+}
+
+interface TextDocumentParams {
+  textDocument: { uri: string; text?: string };
+  position: Position;
+  contentChanges?: { text: string }[];
+  context?: { includeDeclaration?: boolean };
+}
+
+class RequestError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+const CAPABILITIES = {
+  textDocumentSync: 1, // full document on every change
+  hoverProvider: true,
+  definitionProvider: true,
+  referencesProvider: true,
+  completionProvider: { triggerCharacters: ['.'] },
+  foldingRangeProvider: true,
+};
+
+/**
+ * Redcode language server. Speaks LSP over the given streams (stdin/stdout
+ * for editors) and publishes diagnostics whenever a document is opened or
+ * changed.
+ */
+export class RedcodeLanguageServer {
+  private connection: MessageConnection;
+  private service: RedcodeLanguageService;
+  private documents = new Map<string, string>();
+  private initialized = false;
+  private shutdownRequested = false;
+
+  constructor(input: NodeJS.ReadableStream, output: NodeJS.WritableStream, private serverOptions: LanguageServerOptions = {}) {
+    this.connection = new MessageConnection(input, output);
+    this.service = new RedcodeLanguageService(serverOptions.options, serverOptions.config);
+  }
+
+  listen(): void {
+    this.connection.listen(
+      message => this.handle(message),
+      error => this.connection.send({ jsonrpc: '2.0', id: null, error: { code: ErrorCodes.ParseError, message: error.message } }),
+    );
+  }
+
+  private handle(message: Message): void {
+    if (!('method' in message)) return; // responses to server requests; none are sent
+    if ('id' in message) {
+      this.respond(message);
+      return;
+    }
+    const params = message.params as TextDocumentParams;
+    switch (message.method) {
+      case 'textDocument/didOpen':
+        this.update(params.textDocument.uri, params.textDocument.text ?? '');
+        break;
+      case 'textDocument/didChange': {
+        const changes = params.contentChanges ?? [];
+        if (changes.length > 0) this.update(params.textDocument.uri, changes[changes.length - 1].text);
+        break;
+      }
+      case 'textDocument/didClose':
+        this.documents.delete(params.textDocument.uri);
+        this.publish(params.textDocument.uri, []);
+        break;
+      case 'exit':
+        this.serverOptions.onExit?.(this.shutdownRequested ? 0 : 1);
+        break;
+    }
+  }
+
+  private respond(request: RequestMessage): void {
+    try {
+      const result = this.dispatch(request);
+      this.connection.send({ jsonrpc: '2.0', id: request.id, result });
+    } catch (e) {
+      const error = e instanceof RequestError ? e : new RequestError(ErrorCodes.InternalError, e instanceof Error ? e.message : String(e));
+      this.connection.send({ jsonrpc: '2.0', id: request.id, error: { code: error.code, message: error.message } });
+    }
+  }
+
+  private dispatch(request: RequestMessage): unknown {
+    if (request.method === 'initialize') {
+      const init = request.params as { initializationOptions?: Partial<SimulatorOptions> } | undefined;
+      if (init?.initializationOptions) {
+        this.service = new RedcodeLanguageService({ ...this.serverOptions.options, ...init.initializationOptions }, this.serverOptions.config);
+      }
+      this.initialized = true;
+      return { capabilities: CAPABILITIES, serverInfo: { name: 'pmars-ts' } };
+    }
+    if (!this.initialized) throw new RequestError(ErrorCodes.ServerNotInitialized, 'Server not initialized');
+
+    const params = request.params as TextDocumentParams;
+    const uri = params?.textDocument?.uri;
+    const text = uri !== undefined ? this.documents.get(uri) ?? '' : '';
+    switch (request.method) {
+      case 'shutdown':
+        this.shutdownRequested = true;
+        return null;
+      case 'textDocument/hover':
+        return this.service.hover(text, params.position);
+      case 'textDocument/definition':
+        return this.service.definition(text, params.position, uri);
+      case 'textDocument/references':
+        return this.service.references(text, params.position, uri, params.context?.includeDeclaration ?? true);
+      case 'textDocument/completion':
+        return this.service.completion(text, params.position);
+      case 'textDocument/foldingRange':
+        return this.service.foldingRanges(text);
+      default:
+        throw new RequestError(ErrorCodes.MethodNotFound, `Unhandled method ${request.method}`);
+    }
+  }
+
+  private update(uri: string, text: string): void {
+    this.documents.set(uri, text);
+    this.publish(uri, this.service.diagnostics(text, uri));
+  }
+
+  private publish(uri: string, diagnostics: unknown[]): void {
+    this.connection.send({ jsonrpc: '2.0', method: 'textDocument/publishDiagnostics', params: { uri, diagnostics } });
+  }
+}
+
+/** Start a Redcode language server on the given streams (stdin/stdout by default). */
+export function startLanguageServer(
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout,
+  options?: LanguageServerOptions,
+): RedcodeLanguageServer {
+  const server = new RedcodeLanguageServer(input, output, options);
+  server.listen();
+  return server;
+}
@@ -0,0 +1,209 @@
+import { Assembler, predefinedConstants, type AssembleResult, type AssemblerConfig, type AssemblerMessage } from '../assembler/index.js';
+import { type SimulatorOptions, OPCODE_NAMES, MODIFIER_NAMES } from '../types.js';
+import {
+  type Position, type Range, type Location, type Diagnostic, type Hover, type CompletionItem, type FoldingRange,
+  DiagnosticSeverity, CompletionItemKind,
+} from './protocol.js';
+
+const PSEUDO_OPS = ['EQU', 'FOR', 'ROF', 'END', 'ORG', 'PIN'];
+const IDENTIFIER = /[A-Za-z_][A-Za-z0-9_]*/g;
+
+interface SymbolInfo {
+  name: string;
+  kind: 'label' | 'equ' | 'for';
+  /** 1-based definition line */
+  line: number;
+  /** Markdown description shown on hover */
+  detail: string;
+}
+
+interface Word {
+  name: string;
+  range: Range;
+}
+
+/**
+ * Editor features for Redcode documents, computed from the assembler's
+ * messages and symbol table. Documents are passed as plain text, so the
+ * service holds no per-document state beyond a one-entry assembly cache.
+ */
+export class RedcodeLanguageService {
+  private options: Partial<SimulatorOptions>;
+  private config: AssemblerConfig;
+  private predefined: Map<string, number>;
+  private cache: { text: string; result: AssembleResult } | null = null;
+
+  constructor(options?: Partial<SimulatorOptions>, config?: AssemblerConfig) {
+    this.options = { ...options };
+    this.config = { ...config, listing: false };
+    this.predefined = predefinedConstants(this.options);
+  }
+
+  diagnostics(text: string, uri: string): Diagnostic[] {
+    const lines = text.split('\n');
+    return this.assemble(text).messages
+      .filter(m => m.file === undefined)
+      .map(m => toDiagnostic(m, lines, uri));
+  }
+
+  hover(text: string, position: Position): Hover | null {
+    const word = wordAt(text.split('\n'), position);
+    if (!word) return null;
+    const symbol = this.symbols(text).get(word.name);
+    const value = this.predefined.get(word.name);
+    let detail: string;
+    if (symbol) detail = symbol.detail;
+    else if (value !== undefined) detail = `**${word.name}** predefined constant = ${value}`;
+    else return null;
+    return { contents: { kind: 'markdown', value: detail }, range: word.range };
+  }
+
+  definition(text: string, position: Position, uri: string): Location | null {
+    const lines = text.split('\n');
+    const word = wordAt(lines, position);
+    const symbol = word && this.symbols(text).get(word.name);
+    if (!symbol) return null;
+    const range = occurrences(lines[symbol.line - 1] ?? '', symbol.name, symbol.line - 1)[0];
+    return range ? { uri, range } : null;
+  }
+
+  references(text: string, position: Position, uri: string, includeDeclaration = true): Location[] {
+    const lines = text.split('\n');
+    const word = wordAt(lines, position);
+    const symbol = word && this.symbols(text).get(word.name);
+    if (!symbol) return [];
+    const definition = this.definition(text, position, uri);
+    return lines
+      .flatMap((line, i) => occurrences(line, symbol.name, i))
+      .filter(range => includeDeclaration || !definition || !sameRange(range, definition.range))
+      .map(range => ({ uri, range }));
+  }
+
+  completion(text: string, position: Position): CompletionItem[] {
+    const prefix = (text.split('\n')[position.line] ?? '').substring(0, position.character);
+    if (prefix.includes(';')) return [];
+    if (/[A-Za-z]\.[A-Za-z]*$/.test(prefix)) {
+      return MODIFIER_NAMES.map(name => ({ label: name, kind: CompletionItemKind.EnumMember }));
+    }
+    const items: CompletionItem[] = [
+      ...OPCODE_NAMES.map(name => ({ label: name, kind: CompletionItemKind.Keyword })),
+      ...PSEUDO_OPS.map(name => ({ label: name, kind: CompletionItemKind.Keyword })),
+    ];
+    for (const symbol of this.symbols(text).values()) {
+      items.push({ label: symbol.name, kind: symbol.kind === 'label' ? CompletionItemKind.Variable : CompletionItemKind.Constant, detail: symbol.kind });
+    }
+    for (const [name, value] of this.predefined) {
+      items.push({ label: name, kind: CompletionItemKind.Constant, detail: String(value) });
+    }
+    return items;
+  }
+
+  /** FOR/ROF blocks, innermost blocks included. */
+  foldingRanges(text: string): FoldingRange[] {
+    const ranges: FoldingRange[] = [];
+    const open: number[] = [];
+    text.split('\n').forEach((line, i) => {
+      for (const token of line.split(';')[0].trim().split(/\s+/)) {
+        const upper = token.toUpperCase().replace(/:$/, '');
+        if (upper === 'FOR') open.push(i);
+        else if (upper === 'ROF' && open.length > 0) ranges.push({ startLine: open.pop()!, endLine: i });
+        // Anything but a label ends the statement's keyword position
+        if (upper === 'FOR' || upper === 'ROF' || PSEUDO_OPS.includes(upper) || (OPCODE_NAMES as readonly string[]).includes(upper.split('.')[0])) break;
+      }
+    });
+    return ranges.sort((a, b) => a.startLine - b.startLine);
+  }
+
+  private assemble(text: string): AssembleResult {
+    if (this.cache?.text !== text) {
+      this.cache = { text, result: new Assembler(this.options, this.config).assemble(text) };
+    }
+    return this.cache.result;
+  }
+
+  private symbols(text: string): Map<string, SymbolInfo> {
+    const { symbols } = this.assemble(text);
+    const result = new Map<string, SymbolInfo>();
+    for (const counter of symbols.forCounters) {
+      if (counter.file !== undefined) continue;
+      result.set(counter.name, { name: counter.name, kind: 'for', line: counter.line, detail: `**${counter.name}** FOR counter, 1 to ${counter.count}` });
+    }
+    for (const equ of symbols.equs) {
+      if (equ.file !== undefined) continue;
+      const body = equ.lines ? equ.lines.join('\n') : equ.text;
+      const value = equ.value !== null && String(equ.value) !== equ.text.trim() ? ` = ${equ.value}` : '';
+      result.set(equ.name, { name: equ.name, kind: 'equ', line: equ.line, detail: `**${equ.name}** EQU \`${body}\`${value}` });
+    }
+    for (const label of symbols.labels) {
+      if (label.file !== undefined) continue;
+      result.set(label.name, { name: label.name, kind: 'label', line: label.line, detail: `**${label.name}** label, offset ${label.offset}` });
+    }
+    return result;
+  }
+}
+
+function toDiagnostic(message: AssemblerMessage, lines: string[], uri: string): Diagnostic {
+  const diagnostic: Diagnostic = {
+    range: messageRange(message.line, message.column, message.endColumn, lines),
+    severity: message.type === 'ERROR' ? DiagnosticSeverity.Error
+      : message.type === 'WARNING' ? DiagnosticSeverity.Warning : DiagnosticSeverity.Information,
+    code: message.code,
+    source: 'pmars',
+    message: message.text,
+  };
+  if (message.related) {
+    diagnostic.relatedInformation = message.related
+      .filter(r => r.file === undefined)
+      .map(r => ({ location: { uri, range: messageRange(r.line, r.column, undefined, lines) }, message: r.text }));
+  }
+  return diagnostic;
+}
+
+/** LSP range of a 1-based message location; whole-warrior messages (line 0) go at the top. */
+function messageRange(line: number, column: number | undefined, endColumn: number | undefined, lines: string[]): Range {
+  if (line <= 0) return { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } };
+  const text = lines[line - 1] ?? '';
+  const start = column !== undefined ? column - 1 : text.length - text.trimStart().length;
+  const end = endColumn !== undefined ? endColumn - 1 : text.trimEnd().length;
+  return { start: { line: line - 1, character: start }, end: { line: line - 1, character: Math.max(start, end) } };
+}
+
+/** Part of a line that can hold symbol references: the statement, or the expression of an ;assert. */
+function searchable(line: string): [number, number] {
+  const assert = /^\s*;\s*assert\b/i.exec(line);
+  if (assert) return [assert[0].length, line.length];
+  const comment = line.indexOf(';');
+  return [0, comment >= 0 ? comment : line.length];
+}
+
+/** Whole-identifier, case-insensitive occurrences of a symbol on one line. */
+function occurrences(line: string, name: string, lineIdx: number): Range[] {
+  const [from, to] = searchable(line);
+  const ranges: Range[] = [];
+  for (const match of line.substring(0, to).matchAll(IDENTIFIER)) {
+    // Words after '.' are modifiers, not symbols
+    if (match.index! < from || line[match.index! - 1] === '.') continue;
+    if (match[0].toUpperCase() !== name) continue;
+    ranges.push({ start: { line: lineIdx, character: match.index! }, end: { line: lineIdx, character: match.index! + match[0].length } });
+  }
+  return ranges;
+}
+
+function wordAt(lines: string[], position: Position): Word | null {
+  const line = lines[position.line];
+  if (line === undefined) return null;
+  const [from, to] = searchable(line);
+  for (const match of line.substring(0, to).matchAll(IDENTIFIER)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    if (start < from || position.character < start || position.character > end) continue;
+    if (line[start - 1] === '.') return null;
+    return { name: match[0].toUpperCase(), range: { start: { line: position.line, character: start }, end: { line: position.line, character: end } } };
+  }
+  return null;
+}
+
+function sameRange(a: Range, b: Range): boolean {
+  return a.start.line === b.start.line && a.start.character === b.start.character
+    && a.end.line === b.end.line && a.end.character === b.end.character;
+}
@@ -0,0 +1,13 @@
+// Node.js-only API (worker threads, stdio language server, file system)
+export { ParallelBattleRunner } from './parallel/runner.js';
+export type { ParallelBattleRunnerOptions } from './parallel/runner.js';
+export { runRoundChunk, splitRounds, usesPSpace } from './parallel/chunk.js';
+export type { RoundChunk } from './parallel/chunk.js';
+export { RedcodeLanguageServer, startLanguageServer } from './lsp/server.js';
+export type { LanguageServerOptions } from './lsp/server.js';
+export { RedcodeLanguageService } from './lsp/service.js';
+export type { Position, Range, Location, Diagnostic, Hover, CompletionItem, FoldingRange } from './lsp/protocol.js';
+export { loadWarriorFile, loadBenchmarkOpponents } from './benchmark/files.js';
+export { parseBenchmarkArgs, runBenchmarkCli } from './benchmark/cli.js';
+export type { BenchmarkCliArgs } from './benchmark/cli.js';
+export { loadHill, saveHill, openHill } from './hill/store.js';
@@ -0,0 +1,48 @@
+import { type WarriorData, type SimulatorOptions, Opcode } from '../types.js';
+import { decodeOpcode } from '../constants.js';
+import { Simulator, type RoundPlan } from '../simulator/index.js';
+import { type BattleResult } from '../simulator/results.js';
+
+/** A run of consecutive rounds that one worker executes on its own. */
+export interface RoundChunk {
+  warriors: WarriorData[];
+  options: Partial<SimulatorOptions>;
+  /** Plan of the chunk's first round; later rounds follow its seed sequence */
+  start: RoundPlan;
+  rounds: number;
+}
+
+/** Run a chunk's rounds in a fresh simulator. */
+export function runRoundChunk(chunk: RoundChunk): BattleResult {
+  const sim = new Simulator(chunk.options);
+  sim.loadWarriors(chunk.warriors);
+  sim.seekRound(chunk.start);
+  return sim.runBattle(chunk.rounds);
+}
+
+/**
+ * Split planned rounds into at most `parts` consecutive chunks of nearly equal
+ * size.
+ */
+export function splitRounds(plans: RoundPlan[], parts: number): { start: RoundPlan; rounds: number }[] {
+  const count = Math.min(parts, plans.length);
+  const chunks: { start: RoundPlan; rounds: number }[] = [];
+  let next = 0;
+  for (let i = 0; i < count; i++) {
+    const rounds = Math.floor(plans.length / count) + (i < plans.length % count ? 1 : 0);
+    chunks.push({ start: plans[next], rounds });
+    next += rounds;
+  }
+  return chunks;
+}
+
+/**
+ * True if any warrior contains LDP or STP. Such warriors can carry state from
+ * one round into the next, so their rounds must run in order.
+ */
+export function usesPSpace(warriors: WarriorData[]): boolean {
+  return warriors.some(w => w.instructions.some(inst => {
+    const { opcode } = decodeOpcode(inst.opcode);
+    return opcode === Opcode.LDP || opcode === Opcode.STP;
+  }));
+}
@@ -0,0 +1,70 @@
+import { Worker } from 'node:worker_threads';
+import { availableParallelism } from 'node:os';
+import { join } from 'node:path';
+import { type WarriorData, type SimulatorOptions, DEFAULT_OPTIONS } from '../types.js';
+import { Simulator } from '../simulator/index.js';
+import { type BattleResult, mergeBattleResults } from '../simulator/results.js';
+import { type RoundChunk, splitRounds, usesPSpace } from './chunk.js';
+
+export interface ParallelBattleRunnerOptions {
+  /** Number of worker threads (default: available parallelism) */
+  workers?: number;
+  /**
+   * Path or URL of the compiled worker script, exported as
+   * `pmars-ts/parallel/worker`. Required when the package is loaded as an ES
+   * module; defaults to the bundled CommonJS worker otherwise.
+   */
+  workerScript?: string | URL;
+}
+
+function defaultWorkerScript(): string {
+  if (typeof __dirname === 'undefined') {
+    throw new Error("workerScript must be given when pmars-ts is loaded as an ES module, e.g. new URL(import.meta.resolve('pmars-ts/parallel/worker'))");
+  }
+  return join(__dirname, 'worker.js');
+}
+
+/**
+ * Runs a battle's rounds across worker threads. Positions and starting
+ * warriors are planned up front, so the merged result equals a serial
+ * Simulator.runBattle() with the same options. Warriors that use P-space
+ * run all rounds in a single worker, in order.
+ */
+export class ParallelBattleRunner {
+  private options: Partial<SimulatorOptions>;
+  private workers: number;
+  private workerScript: string | URL | undefined;
+
+  constructor(options?: Partial<SimulatorOptions>, runnerOptions: ParallelBattleRunnerOptions = {}) {
+    this.options = { ...options };
+    this.workers = runnerOptions.workers ?? availableParallelism();
+    if (!Number.isInteger(this.workers) || this.workers < 1) {
+      throw new Error(`workers must be a positive integer, got ${this.workers}`);
+    }
+    this.workerScript = runnerOptions.workerScript;
+  }
+
+  async run(warriors: WarriorData[], rounds?: number): Promise<BattleResult> {
+    const numRounds = rounds ?? this.options.rounds ?? DEFAULT_OPTIONS.rounds;
+    const planner = new Simulator(this.options);
+    planner.loadWarriors(warriors);
+    if (numRounds <= 0) return planner.runBattle(0);
+
+    const plans = planner.planRounds(numRounds);
+    const parts = usesPSpace(warriors) ? 1 : this.workers;
+    const script = this.workerScript ?? defaultWorkerScript();
+    const results = await Promise.all(splitRounds(plans, parts).map(({ start, rounds: count }) =>
+      this.runWorker(script, { warriors, options: this.options, start, rounds: count })));
+    return mergeBattleResults(results);
+  }
+
+  private runWorker(script: string | URL, chunk: RoundChunk): Promise<BattleResult> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(script, { workerData: chunk });
+      worker.once('message', (result: BattleResult) => resolve(result));
+      worker.once('error', reject);
+      // Does nothing once the result or an error has settled the promise
+      worker.once('exit', code => reject(new Error(`Battle worker exited with code ${code} before sending a result`)));
+    });
+  }
+}
@@ -0,0 +1,5 @@
+import { parentPort, workerData } from 'node:worker_threads';
+import { runRoundChunk, type RoundChunk } from './chunk.js';
+
+// Entry point of each ParallelBattleRunner worker thread.
+parentPort?.postMessage(runRoundChunk(workerData as RoundChunk));
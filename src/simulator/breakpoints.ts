@@ -0,0 +1,97 @@
+import { type Opcode, type Modifier } from '../types.js';
+import { type RoundResult } from './index.js';
+
+/**
+ * Addresses are absolute core addresses unless `relativeTo` names a warrior,
+ * in which case they are offsets from that warrior's load position.
+ * `warriorId` restricts a breakpoint to instructions executed by one warrior.
+ */
+export type Breakpoint =
+  | { type: 'execute'; address: number; relativeTo?: number; warriorId?: number }
+  | { type: 'write'; start: number; end?: number; relativeTo?: number; warriorId?: number }
+  | { type: 'read'; address: number; relativeTo?: number; warriorId?: number }
+  | { type: 'opcode'; opcode: Opcode; modifier?: Modifier; warriorId?: number }
+  | { type: 'taskCount'; warriorId: number; threshold: number; direction: 'above' | 'below' };
+
+export interface BreakpointHit {
+  id: number;
+  breakpoint: Breakpoint;
+  /** Cycle of the round in which the triggering instruction ran */
+  cycle: number;
+  warriorId: number;
+  /** Program counter of the triggering instruction */
+  pc: number;
+  /** Core address that matched, or null for opcode and task count breakpoints */
+  address: number | null;
+}
+
+/** Exactly one of `hit` and `roundResult` is non-null. */
+export interface BreakResult {
+  hit: BreakpointHit | null;
+  roundResult: RoundResult | null;
+}
+
+export interface CycleObservation {
+  warriorId: number;
+  pc: number;
+  opcode: Opcode;
+  modifier: Modifier;
+  reads: number[];
+  writes: number[];
+  tasksBefore: number;
+  tasksAfter: number;
+}
+
+/** Resolve a possibly warrior-relative address to an absolute core address. */
+function resolve(address: number, relativeTo: number | undefined, positions: number[], coreSize: number): number {
+  const base = relativeTo !== undefined ? positions[relativeTo] ?? 0 : 0;
+  return (((base + address) % coreSize) + coreSize) % coreSize;
+}
+
+/**
+ * Find the first breakpoint (in insertion order) matched by an executed
+ * instruction. Breakpoints are checked after the instruction completes.
+ */
+export function matchBreakpoint(
+  breakpoints: Map<number, Breakpoint>,
+  obs: CycleObservation,
+  positions: number[],
+  coreSize: number,
+  cycle: number,
+): BreakpointHit | null {
+  for (const [id, bp] of breakpoints) {
+    const hit = (address: number | null): BreakpointHit => ({ id, breakpoint: bp, cycle, warriorId: obs.warriorId, pc: obs.pc, address });
+    if (bp.type !== 'taskCount' && bp.warriorId !== undefined && bp.warriorId !== obs.warriorId) continue;
+
+    switch (bp.type) {
+      case 'execute':
+        if (resolve(bp.address, bp.relativeTo, positions, coreSize) === obs.pc) return hit(obs.pc);
+        break;
+      case 'read': {
+        const target = resolve(bp.address, bp.relativeTo, positions, coreSize);
+        if (obs.reads.includes(target)) return hit(target);
+        break;
+      }
+      case 'write': {
+        const start = resolve(bp.start, bp.relativeTo, positions, coreSize);
+        const length = (bp.end ?? bp.start) - bp.start;
+        for (const addr of obs.writes) {
+          if ((((addr - start) % coreSize) + coreSize) % coreSize <= length) return hit(addr);
+        }
+        break;
+      }
+      case 'opcode':
+        if (bp.opcode === obs.opcode && (bp.modifier === undefined || bp.modifier === obs.modifier)) return hit(null);
+        break;
+      case 'taskCount': {
+        if (bp.warriorId !== obs.warriorId) break;
+        const crossed = bp.direction === 'above'
+          ? obs.tasksBefore <= bp.threshold && obs.tasksAfter > bp.threshold
+          : obs.tasksBefore >= bp.threshold && obs.tasksAfter < bp.threshold;
+        if (crossed) return hit(null);
+        break;
+      }
+    }
+  }
+  return null;
+}
@@ -1,44 +1,117 @@
-import { type Instruction } from '../types.js';
+import { type Instruction, type AddressMode } from '../types.js';
 import { INITIAL_INSTRUCTION } from '../constants.js';
 
+/**
+ * Live view of one core cell. Its fields are enumerable accessors on the
+ * buffers, so mutating a cell returned by Core.get() updates the core, and
+ * spreading or serializing it gives the cell's current contents. Core.get()
+ * creates each cell once and returns the same object afterwards.
+ */
+export class CoreCell implements Instruction {
+  declare opcode: number;
+  declare aMode: AddressMode;
+  declare bMode: AddressMode;
+  declare aValue: number;
+  declare bValue: number;
+  declare readonly address: number;
+
+  constructor(core: Core, address: number) {
+    Object.defineProperties(this, {
+      address: { value: address },
+      opcode: bufferField(core.opcodes, address),
+      aMode: bufferField(core.aModes, address),
+      bMode: bufferField(core.bModes, address),
+      aValue: bufferField(core.aValues, address),
+      bValue: bufferField(core.bValues, address),
+    });
+  }
+}
+
+function bufferField(buffer: Uint8Array | Int32Array, index: number): PropertyDescriptor {
+  return {
+    enumerable: true,
+    get: () => buffer[index],
+    set: (value: number) => { buffer[index] = value; },
+  };
+}
+
+/**
+ * Core memory stored as parallel typed arrays (structure of arrays). The
+ * simulator works on the buffers directly; get()/set() remain for callers
+ * that prefer Instruction objects.
+ */
 export class Core {
-  private memory: Instruction[];
   readonly size: number;
+  readonly opcodes: Uint8Array;
+  readonly aModes: Uint8Array;
+  readonly bModes: Uint8Array;
+  readonly aValues: Int32Array;
+  readonly bValues: Int32Array;
+  private cells: (CoreCell | undefined)[] = [];
 
   constructor(size: number) {
     this.size = size;
-    this.memory = new Array(size);
+    this.opcodes = new Uint8Array(size);
+    this.aModes = new Uint8Array(size);
+    this.bModes = new Uint8Array(size);
+    this.aValues = new Int32Array(size);
+    this.bValues = new Int32Array(size);
     this.clear();
   }
 
   clear(): void {
-    for (let i = 0; i < this.size; i++) {
-      this.memory[i] = { ...INITIAL_INSTRUCTION };
-    }
+    this.opcodes.fill(INITIAL_INSTRUCTION.opcode);
+    this.aModes.fill(INITIAL_INSTRUCTION.aMode);
+    this.bModes.fill(INITIAL_INSTRUCTION.bMode);
+    this.aValues.fill(INITIAL_INSTRUCTION.aValue);
+    this.bValues.fill(INITIAL_INSTRUCTION.bValue);
   }
 
   get(addr: number): Instruction {
-    return this.memory[this.wrap(addr)];
+    const a = this.wrap(addr);
+    return this.cells[a] ??= new CoreCell(this, a);
+  }
+
+  /** Plain copy of a cell, detached from the core. */
+  read(addr: number): Instruction {
+    const a = this.wrap(addr);
+    return {
+      opcode: this.opcodes[a],
+      aMode: this.aModes[a] as AddressMode,
+      bMode: this.bModes[a] as AddressMode,
+      aValue: this.aValues[a],
+      bValue: this.bValues[a],
+    };
   }
 
   set(addr: number, inst: Instruction): void {
-    this.memory[this.wrap(addr)] = inst;
+    const a = this.wrap(addr);
+    this.opcodes[a] = inst.opcode;
+    this.aModes[a] = inst.aMode;
+    this.bModes[a] = inst.bMode;
+    this.aValues[a] = inst.aValue;
+    this.bValues[a] = inst.bValue;
   }
 
   copyFrom(src: number, dst: number): void {
-    const s = this.get(src);
-    const d = this.get(dst);
-    d.opcode = s.opcode;
-    d.aMode = s.aMode;
-    d.bMode = s.bMode;
-    d.aValue = s.aValue;
-    d.bValue = s.bValue;
+    const s = this.wrap(src);
+    const d = this.wrap(dst);
+    this.opcodes[d] = this.opcodes[s];
+    this.aModes[d] = this.aModes[s];
+    this.bModes[d] = this.bModes[s];
+    this.aValues[d] = this.aValues[s];
+    this.bValues[d] = this.bValues[s];
   }
 
   loadInstructions(instructions: Instruction[], startAddr: number): void {
     for (let i = 0; i < instructions.length; i++) {
       const addr = (startAddr + i) % this.size;
-      this.memory[addr] = { ...instructions[i] };
+      const inst = instructions[i];
+      this.opcodes[addr] = inst.opcode;
+      this.aModes[addr] = inst.aMode;
+      this.bModes[addr] = inst.bMode;
+      this.aValues[addr] = inst.aValue;
+      this.bValues[addr] = inst.bValue;
     }
   }
 
@@ -1,11 +1,19 @@
 import { type Instruction, type WarriorData, type SimulatorOptions, DEFAULT_OPTIONS, Opcode, Modifier, AddressMode } from '../types.js';
 import { encodeOpcode, decodeOpcode, INITIAL_INSTRUCTION, MAX_WARRIORS } from '../constants.js';
 import { Core } from './core.js';
-import { SimWarrior } from './warrior.js';
+import { SimWarrior, deathScoreIndex } from './warrior.js';
 import { PSpace, computePSpaceSize } from './pspace.js';
 import { positionWarriors } from './positioning.js';
+import { type SimulatorSnapshot, SNAPSHOT_VERSION, validateSnapshot, copyRoundResult } from './snapshot.js';
+import { type CycleEntry, type RoundEndEntry, UndoJournal } from './journal.js';
+import { type Breakpoint, type BreakpointHit, type BreakResult, matchBreakpoint } from './breakpoints.js';
+import { type StepTrace } from './trace.js';
+import { type SimulatorView, type WarriorView, createWarriorView } from './view.js';
+import { type BattleResult, buildBattleResult } from './results.js';
 import { addMod, subMod, mulMod } from '../utils/modular-arithmetic.js';
 import { rng } from '../utils/rng.js';
+import { checkIcws88Instruction } from '../icws88.js';
+import { yieldToEventLoop } from '../utils/yield.js';
 
 export interface CoreAccessEvent {
   warriorId: number;
@@ -30,7 +38,64 @@ export interface SimulatorEventListener {
 
 export interface RoundResult {
   winnerId: number | null;
-  outcome: 'WIN' | 'TIE';
+  /** 'LOSS' only occurs in single-warrior runs, when the warrior dies */
+  outcome: 'WIN' | 'TIE' | 'LOSS';
+  /** Per warrior: true if it was alive when the round ended */
+  survived: boolean[];
+  /** Per warrior: 0-based cycle it died in, or null if it survived */
+  deathCycles: (number | null)[];
+}
+
+export interface RunProgress {
+  /** 1-based number of the round being run */
+  round: number;
+  roundsCompleted: number;
+  totalRounds: number;
+  cycle: number;
+  warriorsLeft: number;
+}
+
+export interface RunAsyncOptions {
+  /** Stops the run at the next time slice; the current round stays resumable */
+  signal?: { readonly aborted: boolean };
+  onProgress?: (progress: RunProgress) => void;
+  /** Instructions executed per time slice before yielding to the event loop */
+  yieldEvery?: number;
+}
+
+export interface AsyncRunResult {
+  /** Results of the rounds completed by this call */
+  results: RoundResult[];
+  /** True if the signal fired before all requested rounds completed */
+  aborted: boolean;
+}
+
+const DEFAULT_YIELD_EVERY = 50000;
+
+/** Where and in which order a future round starts, computed by planRounds(). */
+export interface RoundPlan {
+  /** 1-based round number */
+  round: number;
+  /** Positioning seed in effect before the round's warriors are placed */
+  seed: number;
+  /** Warrior that executes first */
+  startingWarrior: number;
+  positions: number[];
+}
+
+export interface RunUntilResult {
+  /** True if the predicate returned true */
+  matched: boolean;
+  /** Instructions executed by this call */
+  steps: number;
+  /** Set if the round ended before the predicate matched */
+  roundResult: RoundResult | null;
+}
+
+export interface TracedStepResult {
+  /** Record of the executed instruction, or null if the round was already over */
+  trace: StepTrace | null;
+  roundResult: RoundResult | null;
 }
 
 export class Simulator {
@@ -47,6 +112,14 @@ export class Simulator {
   private cycle = 0;
   private roundNum = 0;
   private totalCycles = 0;
+  // Cycles completed this round (every living warrior executed once) and
+  // whether a partially executed cycle follows them
+  private roundCycle = 0;
+  private cycleInProgress = false;
+  // True between setupRound() and endRound()
+  private roundActive = false;
+  // Result of the last round ended, returned again if stepping continues past it
+  private lastRoundResult: RoundResult | null = null;
   private seed = 0;
   private initialized = false;
 
@@ -57,6 +130,30 @@ export class Simulator {
   // Per-step event accumulator
   private coreAccessEvents: CoreAccessEvent[] = [];
 
+  // Reverse execution journal (null when disabled)
+  private journal: UndoJournal | null = null;
+  private pendingEntry: CycleEntry | null = null;
+
+  // Breakpoints, keyed by id in insertion order
+  private breakpoints: Map<number, Breakpoint> = new Map();
+  private nextBreakpointId = 1;
+  private breakHit: BreakpointHit | null = null;
+  // Trace capture for stepTraced()
+  private tracing = false;
+  private lastTrace: StepTrace | null = null;
+  // Read-only view handed to runUntil() predicates
+  private view: SimulatorView | null = null;
+  private viewedWarriors: SimWarrior[] | null = null;
+  private warriorViews: WarriorView[] = [];
+  // True when breakpoints, tracing or the undo journal need per-instruction
+  // bookkeeping; without them run() and runRound() skip it entirely
+  private instrumented = false;
+  // Cells read and written by the current instruction, collected for breakpoints
+  private readAddrs: number[] = [];
+  private writtenAddrs: number[] = [];
+  // Position of each warrior in this round's turn order, indexed by id
+  private turnRank: number[] = [];
+
   constructor(options?: Partial<SimulatorOptions>) {
     this.options = { ...DEFAULT_OPTIONS, ...options };
     this.core = new Core(this.options.coreSize);
@@ -77,6 +174,13 @@ export class Simulator {
       throw new Error('fixedSeries and fixedPosition are mutually exclusive');
     }
 
+    if (this.options.icws88) {
+      warriors.forEach(w => w.instructions.forEach((inst, i) => {
+        const error = checkIcws88Instruction(inst);
+        if (error) throw new Error(`Warrior "${w.name}" is not valid ICWS'88 at instruction ${i}: ${error}`);
+      }));
+    }
+
     this.warriorData = warriors;
     const coreSize = this.options.coreSize;
 
@@ -112,9 +216,146 @@ export class Simulator {
       }
     }
 
+    this.lastRoundResult = null;
+    this.journal?.clear();
     this.initialized = true;
   }
 
+  /**
+   * Enable reverse execution, keeping undo information for up to `depth`
+   * executed instructions. A depth of 0 disables the journal.
+   */
+  setUndoDepth(depth: number): void {
+    this.journal = depth > 0 ? new UndoJournal(depth) : null;
+    this.updateInstrumented();
+  }
+
+  canStepBack(): boolean {
+    return this.journal !== null && this.journal.size > 0;
+  }
+
+  /**
+   * Undo the most recently executed instruction, including any round-end
+   * bookkeeping it triggered. Returns false when there is nothing to undo.
+   */
+  stepBack(): boolean {
+    if (!this.journal) return false;
+    let entry = this.journal.pop();
+    while (entry?.kind === 'round-end') {
+      this.undoRoundEnd(entry);
+      entry = this.journal.pop();
+    }
+    if (!entry) return false;
+
+    for (let i = entry.cells.length - 1; i >= 0; i--) {
+      this.core.set(entry.cells[i].address, entry.cells[i].before);
+    }
+    for (let i = entry.pSpaceWrites.length - 1; i >= 0; i--) {
+      const change = entry.pSpaceWrites[i];
+      this.pSpaces[change.pSpaceIndex].set(change.index, change.before);
+    }
+
+    const w = this.warriors[entry.warriorIdx];
+    while (w.processQueue.size > entry.queueSize) w.processQueue.popBack();
+    w.processQueue.pushFront(entry.progCnt);
+    w.tasks = entry.tasks;
+    w.alive = entry.alive;
+    if (entry.alive) w.deathCycle = null;
+    w.lastResult = entry.lastResult;
+    if (entry.scoreIndex !== null) w.score[entry.scoreIndex]--;
+    if (entry.nextWarrior) this.nextWarrior = entry.nextWarrior;
+    if (entry.prevWarrior) this.prevWarrior = entry.prevWarrior;
+
+    this.cycle = entry.cycle;
+    this.roundCycle = entry.roundCycle;
+    this.cycleInProgress = entry.cycleInProgress;
+    this.warriorsLeft = entry.warriorsLeft;
+    this.currentWarriorIdx = entry.currentWarriorIdx;
+    return true;
+  }
+
+  /** Register a breakpoint and return its id. */
+  addBreakpoint(breakpoint: Breakpoint): number {
+    if (breakpoint.type === 'write' && breakpoint.end !== undefined && breakpoint.end < breakpoint.start) {
+      throw new Error(`Write breakpoint range end (${breakpoint.end}) is before start (${breakpoint.start})`);
+    }
+    const id = this.nextBreakpointId++;
+    this.breakpoints.set(id, { ...breakpoint });
+    this.updateInstrumented();
+    return id;
+  }
+
+  removeBreakpoint(id: number): boolean {
+    const removed = this.breakpoints.delete(id);
+    this.updateInstrumented();
+    return removed;
+  }
+
+  clearBreakpoints(): void {
+    this.breakpoints.clear();
+    this.updateInstrumented();
+  }
+
+  private updateInstrumented(): void {
+    this.instrumented = this.breakpoints.size > 0 || this.tracing || this.journal !== null;
+  }
+
+  /**
+   * Execute instructions until a breakpoint fires or the round ends.
+   * Breakpoints are checked after each instruction completes, so the
+   * simulator is always left between instructions and can be resumed.
+   */
+  runUntilBreak(): BreakResult {
+    for (;;) {
+      if (!this.roundActive || this.isRoundOver()) {
+        return { hit: null, roundResult: this.finishRound() };
+      }
+      this.executeOneCycle();
+      if (this.breakHit) {
+        const hit = this.breakHit;
+        this.breakHit = null;
+        return { hit, roundResult: null };
+      }
+    }
+  }
+
+  /** Number of cycles completed in the current round, i.e. the 0-based index of the running cycle. */
+  getCycle(): number {
+    return this.roundCycle;
+  }
+
+  /** Number of cycles the current round has started, counting a partially executed one. */
+  getCyclesStarted(): number {
+    return this.roundCycle + (this.cycleInProgress ? 1 : 0);
+  }
+
+  private undoRoundEnd(entry: RoundEndEntry): void {
+    this.roundActive = true;
+    this.lastRoundResult = null;
+    for (let i = 0; i < this.warriors.length; i++) {
+      const w = this.warriors[i];
+      const scoreIndex = entry.scoreIndices[i];
+      if (scoreIndex !== null) w.score[scoreIndex]--;
+      w.lastResult = entry.lastResults[i];
+      this.pSpaces[w.pSpaceIndex].lastResult = entry.pSpaceLastResults[i];
+    }
+  }
+
+  /**
+   * Called before every core write of an instrumented step. Tracks written addresses for
+   * breakpoints and saves the cell's pre-write contents to the pending journal entry
+   * (first write wins).
+   */
+  private recordWrite(addr: number): void {
+    this.writtenAddrs.push(addr);
+    const entry = this.pendingEntry;
+    if (!entry) return;
+    for (const change of entry.cells) {
+      if (change.address === addr) return;
+    }
+    entry.cells.push({ address: addr, before: this.core.read(addr) });
+  }
+
   run(rounds?: number): RoundResult[] {
     const numRounds = rounds ?? this.options.rounds;
     const results: RoundResult[] = [];
@@ -124,9 +365,81 @@ export class Simulator {
     return results;
   }
 
+  /**
+   * Run a battle and summarize it: per-warrior wins/ties/losses, the pMARS
+   * survivor breakdown, 3*W+T scores, per-round cycle counts and first losses.
+   * Only the rounds run by this call are counted.
+   */
+  runBattle(rounds?: number): BattleResult {
+    const numRounds = rounds ?? this.options.rounds;
+    const scoresBefore = this.warriors.map(w => [...w.score]);
+    const roundResults: RoundResult[] = [];
+    const roundCycles: number[] = [];
+    const firstLossRounds: (number | null)[] = this.warriors.map(() => null);
+
+    for (let r = 0; r < numRounds; r++) {
+      roundResults.push(this.runRound());
+      roundCycles.push(this.getCyclesStarted());
+      for (let i = 0; i < this.warriors.length; i++) {
+        if (!this.warriors[i].alive && firstLossRounds[i] === null) firstLossRounds[i] = r + 1;
+      }
+    }
+
+    return buildBattleResult({
+      warriors: this.warriors.map(w => ({ id: w.id, name: w.name, author: w.author })),
+      scores: this.warriors.map((w, i) => w.score.map((s, k) => s - scoresBefore[i][k])),
+      roundResults,
+      roundCycles,
+      firstLossRounds,
+    });
+  }
+
+  /**
+   * Run rounds in time slices, yielding to the event loop every `yieldEvery`
+   * instructions. When `signal` aborts, the run stops between instructions and
+   * resolves with the rounds finished so far; calling runAsync() again resumes
+   * the interrupted round where it left off.
+   */
+  async runAsync(rounds?: number, options: RunAsyncOptions = {}): Promise<AsyncRunResult> {
+    const numRounds = rounds ?? this.options.rounds;
+    const yieldEvery = options.yieldEvery ?? DEFAULT_YIELD_EVERY;
+    if (!Number.isInteger(yieldEvery) || yieldEvery < 1) {
+      throw new Error(`yieldEvery must be a positive integer, got ${yieldEvery}`);
+    }
+    const results: RoundResult[] = [];
+    const report = (): void => {
+      options.onProgress?.({
+        round: this.roundNum,
+        roundsCompleted: results.length,
+        totalRounds: numRounds,
+        cycle: this.roundCycle,
+        warriorsLeft: this.warriorsLeft,
+      });
+    };
+
+    while (results.length < numRounds) {
+      if (options.signal?.aborted) return { results, aborted: true };
+      if (!this.roundActive) this.setupRound();
+
+      let budget = yieldEvery;
+      while (!this.isRoundOver()) {
+        this.executeOneCycle();
+        if (--budget === 0) {
+          report();
+          await yieldToEventLoop();
+          if (options.signal?.aborted) return { results, aborted: true };
+          budget = yieldEvery;
+        }
+      }
+      results.push(this.endRound());
+      report();
+    }
+    return { results, aborted: false };
+  }
+
   runRound(): RoundResult {
     this.setupRound();
-    while (this.cycle > 0 && this.warriorsLeft >= 2) {
+    while (!this.isRoundOver()) {
       this.executeOneCycle();
     }
     return this.endRound();
@@ -143,20 +456,11 @@ export class Simulator {
 
     // Seed initialization — only once before first round (matches C sim.c:328-331)
     if (this.roundNum === 1) {
-      if (this.options.fixedPosition != null) {
-        // -F flag: use explicit fixed position, skip rng
-        this.seed = this.options.fixedPosition - this.options.minSeparation;
-      } else {
-        if (this.options.fixedSeries) {
-          // -f flag: seed from warrior checksums specifically
-          this.seed = this.checksumWarriors();
-        } else {
-          this.seed = this.options.seed ?? this.checksumWarriors();
-        }
-        this.seed = rng(this.seed);
-      }
+      this.seed = this.initialSeed();
     }
 
+    this.journal?.clear();
+
     const { positions, seed: newSeed } = positionWarriors(
       this.warriors.length,
       this.options.coreSize,
@@ -169,6 +473,10 @@ export class Simulator {
     this.warriorsLeft = this.warriors.length;
     this.totalCycles = this.warriors.length * this.options.maxCycles;
     this.cycle = this.totalCycles;
+    this.roundCycle = 0;
+    this.cycleInProgress = false;
+    this.roundActive = true;
+    this.lastRoundResult = null;
 
     this.nextWarrior = new Array(this.warriors.length);
     this.prevWarrior = new Array(this.warriors.length);
@@ -183,38 +491,218 @@ export class Simulator {
 
     // Starter rotates each round
     this.currentWarriorIdx = (this.roundNum - 1) % this.warriors.length;
+    this.updateTurnRanks();
+  }
+
+  private updateTurnRanks(): void {
+    const count = this.warriors.length;
+    const first = (this.roundNum - 1) % count;
+    this.turnRank = this.warriors.map((_, i) => (i - first + count) % count);
+  }
+
+  /**
+   * A round ends when cycles run out or one warrior is left; a lone warrior
+   * runs until it dies.
+   */
+  private isRoundOver(): boolean {
+    return this.cycle <= 0 || this.warriorsLeft < (this.warriors.length > 1 ? 2 : 1);
+  }
+
+  /**
+   * Compute positions, seeds and starting warriors of the next `rounds` rounds
+   * without running them. Rounds after the current one depend only on the
+   * positioning seed sequence, so each plan can be run independently with
+   * seekRound() unless the warriors carry state between rounds in P-space.
+   */
+  planRounds(rounds?: number): RoundPlan[] {
+    if (!this.initialized || this.warriors.length === 0) {
+      throw new Error('Simulator not initialized. Call loadWarriors() first.');
+    }
+    const numRounds = rounds ?? this.options.rounds;
+    const warriorCount = this.warriors.length;
+    let seed = this.roundNum === 0 ? this.initialSeed() : this.seed;
+    const plans: RoundPlan[] = [];
+    for (let i = 0; i < numRounds; i++) {
+      const round = this.roundNum + i + 1;
+      const { positions, seed: newSeed } = positionWarriors(
+        warriorCount,
+        this.options.coreSize,
+        this.options.minSeparation,
+        seed,
+      );
+      plans.push({ round, seed, startingWarrior: (round - 1) % warriorCount, positions });
+      seed = newSeed;
+    }
+    return plans;
+  }
+
+  /**
+   * Make the next setupRound() start the planned round. Abandons any round in
+   * progress; scores and P-space are left as they are.
+   */
+  seekRound(plan: RoundPlan): void {
+    if (!Number.isInteger(plan.round) || plan.round < 1) {
+      throw new Error(`Invalid round number ${plan.round}`);
+    }
+    this.roundNum = plan.round - 1;
+    this.seed = plan.seed;
+    this.roundActive = false;
+    this.lastRoundResult = null;
+    this.journal?.clear();
   }
 
-  /** Execute a single step (one warrior's turn). Returns null or round result if round ended. */
+  /**
+   * Execute a single step (one warrior's turn). Returns null or round result if round ended.
+   * Throws if no round has been set up since loadWarriors() or seekRound().
+   */
   step(): RoundResult | null {
-    if (this.cycle <= 0 || this.warriorsLeft < 2) {
-      return this.endRound();
+    if (!this.roundActive || this.isRoundOver()) {
+      return this.finishRound();
     }
 
     this.executeOneCycle();
 
-    if (this.cycle <= 0 || this.warriorsLeft < 2) {
+    if (this.isRoundOver()) {
       return this.endRound();
     }
     return null;
   }
 
+  /**
+   * Execute instructions until the current cycle completes, i.e. every living
+   * warrior has had its turn. Returns the round result if the round ended.
+   */
+  stepCycle(): RoundResult | null {
+    const target = this.roundCycle + 1;
+    let result = this.step();
+    while (result === null && this.roundCycle < target) {
+      result = this.step();
+    }
+    return result;
+  }
+
+  /** Execute up to `cycles` full cycles, stopping early if the round ends. */
+  runCycles(cycles: number): RoundResult | null {
+    if (!Number.isInteger(cycles) || cycles < 0) {
+      throw new Error(`Cycle count must be a non-negative integer, got ${cycles}`);
+    }
+    for (let i = 0; i < cycles; i++) {
+      const result = this.stepCycle();
+      if (result) return result;
+    }
+    return null;
+  }
+
+  /**
+   * Execute instructions until `predicate` returns true, the round ends, or
+   * `maxSteps` instructions have run. The predicate is evaluated after each
+   * instruction and must not keep the view beyond the call.
+   */
+  runUntil(predicate: (view: SimulatorView) => boolean, maxSteps = Infinity): RunUntilResult {
+    const view = this.getView();
+    let steps = 0;
+    while (steps < maxSteps) {
+      if (!this.roundActive || this.isRoundOver()) {
+        return { matched: false, steps, roundResult: this.finishRound() };
+      }
+      this.executeOneCycle();
+      steps++;
+      if (predicate(view)) return { matched: true, steps, roundResult: null };
+    }
+    return { matched: false, steps, roundResult: null };
+  }
+
+  private getView(): SimulatorView {
+    if (this.viewedWarriors !== this.warriors) {
+      this.viewedWarriors = this.warriors;
+      this.warriorViews = this.warriors.map(w => createWarriorView(w));
+    }
+    if (!this.view) {
+      const sim = this;
+      this.view = {
+        get round() { return sim.roundNum; },
+        get cycle() { return sim.roundCycle; },
+        get warriorsLeft() { return sim.warriorsLeft; },
+        get currentWarrior() { return sim.currentWarriorIdx; },
+        get warriors() { return sim.warriorViews; },
+        read: (address: number) => this.core.read(address),
+      };
+    }
+    return this.view;
+  }
+
+  /**
+   * Like step(), but also returns a structured record of what the executed
+   * instruction did: operands, register values, cell writes and process effects.
+   */
+  stepTraced(): TracedStepResult {
+    if (!this.roundActive || this.isRoundOver()) {
+      return { trace: null, roundResult: this.finishRound() };
+    }
+
+    this.tracing = true;
+    this.updateInstrumented();
+    try {
+      this.executeOneCycle();
+    } finally {
+      this.tracing = false;
+      this.updateInstrumented();
+    }
+    const trace = this.lastTrace;
+    this.lastTrace = null;
+
+    const roundResult = this.isRoundOver() ? this.endRound() : null;
+    return { trace, roundResult };
+  }
+
   /** Execute one instruction for the current warrior */
   private executeOneCycle(): void {
     const w = this.warriors[this.currentWarriorIdx];
     const coreSize = this.options.coreSize;
     const coreSize1 = coreSize - 1;
 
+    const instrumented = this.instrumented;
+    const cycleBefore = instrumented ? this.getCycle() : 0;
+    const tasksBefore = w.tasks;
+    if (instrumented) {
+      this.readAddrs.length = 0;
+      this.writtenAddrs.length = 0;
+    }
+
     // Pop program counter
     const progCnt = w.popProcess();
 
+    if (instrumented && (this.journal || this.tracing)) {
+      this.pendingEntry = {
+        kind: 'cycle',
+        warriorIdx: this.currentWarriorIdx,
+        progCnt,
+        queueSize: w.processQueue.size,
+        tasks: w.tasks,
+        alive: w.alive,
+        lastResult: w.lastResult,
+        cycle: this.cycle,
+        roundCycle: this.roundCycle,
+        cycleInProgress: this.cycleInProgress,
+        warriorsLeft: this.warriorsLeft,
+        currentWarriorIdx: this.currentWarriorIdx,
+        cells: [],
+        pSpaceWrites: [],
+        scoreIndex: null,
+        nextWarrior: null,
+        prevWarrior: null,
+      };
+    }
+
     // Copy current instruction to register
-    const ir = this.core.get(progCnt);
-    const irOpcode = ir.opcode;
-    const irAMode = ir.aMode;
-    const irBMode = ir.bMode;
-    let irAValue = ir.aValue;
-    let irBValue = ir.bValue;
+    const { opcodes, aModes, bModes, aValues, bValues } = this.core;
+    const irOpcode = opcodes[progCnt];
+    const irAMode = aModes[progCnt] as AddressMode;
+    const irBMode = bModes[progCnt] as AddressMode;
+    let irAValue = aValues[progCnt];
+    let irBValue = bValues[progCnt];
+    const rawAValue = irAValue;
+    const rawBValue = irBValue;
 
     this.coreAccessEvents.length = 0;
     this.emitCoreAccess(w.id, progCnt, 'EXECUTE');
@@ -237,18 +725,22 @@ export class Simulator {
           isAField = true;
           if (irAMode !== AddressMode.A_INDIRECT) {
             waddrA = this.foldw(progCnt + irAValue, progCnt);
-            fieldPtr = this.core.get(waddrA).aValue;
+            if (instrumented) this.readAddrs.push(waddrA);
+            fieldPtr = aValues[waddrA];
           } else {
             this.emitCoreAccess(w.id, addrA, 'READ');
-            fieldPtr = this.core.get(addrA).aValue;
+            if (instrumented) this.readAddrs.push(addrA);
+            fieldPtr = aValues[addrA];
           }
         } else {
           if (irAMode !== AddressMode.B_INDIRECT) {
             waddrA = this.foldw(progCnt + irAValue, progCnt);
-            fieldPtr = this.core.get(waddrA).bValue;
+            if (instrumented) this.readAddrs.push(waddrA);
+            fieldPtr = bValues[waddrA];
           } else {
             this.emitCoreAccess(w.id, addrA, 'READ');
-            fieldPtr = this.core.get(addrA).bValue;
+            if (instrumented) this.readAddrs.push(addrA);
+            fieldPtr = bValues[addrA];
           }
         }
 
@@ -256,10 +748,11 @@ export class Simulator {
         if (irAMode === AddressMode.B_PREDECR || irAMode === AddressMode.A_PREDECR) {
           fieldPtr--;
           if (fieldPtr < 0) fieldPtr = coreSize1;
+          if (this.instrumented) this.recordWrite(waddrA);
           if (isAField) {
-            this.core.get(waddrA).aValue = fieldPtr;
+            aValues[waddrA] = fieldPtr;
           } else {
-            this.core.get(waddrA).bValue = fieldPtr;
+            bValues[waddrA] = fieldPtr;
           }
         }
 
@@ -267,24 +760,24 @@ export class Simulator {
         // set to waddrA (write-folded) before this point (sim.c:454,464)
         const addrABase = (irAMode !== AddressMode.A_INDIRECT && irAMode !== AddressMode.B_INDIRECT) ? waddrA : addrA;
         addrA = this.foldr(addrABase + fieldPtr, progCnt);
-        AA_Value = this.core.get(addrA).aValue;
-        irAValue = this.core.get(addrA).bValue;
+        AA_Value = aValues[addrA];
+        irAValue = bValues[addrA];
 
         // Post-increment
         if (irAMode === AddressMode.B_POSTINC || irAMode === AddressMode.A_POSTINC) {
           fieldPtr++;
           if (fieldPtr === coreSize) fieldPtr = 0;
+          if (this.instrumented) this.recordWrite(waddrA);
           if (isAField) {
-            this.core.get(waddrA).aValue = fieldPtr;
+            aValues[waddrA] = fieldPtr;
           } else {
-            this.core.get(waddrA).bValue = fieldPtr;
+            bValues[waddrA] = fieldPtr;
           }
         }
       } else {
         // DIRECT mode
-        const baseA = this.core.get(addrA);
-        AA_Value = baseA.aValue;
-        irAValue = baseA.bValue;
+        AA_Value = aValues[addrA];
+        irAValue = bValues[addrA];
       }
     } else {
       // IMMEDIATE mode
@@ -311,17 +804,21 @@ export class Simulator {
         if (irBMode === AddressMode.A_INDIRECT || irBMode === AddressMode.A_PREDECR || irBMode === AddressMode.A_POSTINC) {
           isAField = true;
           if (irBMode !== AddressMode.A_INDIRECT) {
-            fieldPtr = this.core.get(addrB).aValue;
+            if (instrumented) this.readAddrs.push(addrB);
+            fieldPtr = aValues[addrB];
           } else {
             this.emitCoreAccess(w.id, raddrB, 'READ');
-            fieldPtr = this.core.get(raddrB).aValue;
+            if (instrumented) this.readAddrs.push(raddrB);
+            fieldPtr = aValues[raddrB];
           }
         } else {
           if (irBMode !== AddressMode.B_INDIRECT) {
-            fieldPtr = this.core.get(addrB).bValue;
+            if (instrumented) this.readAddrs.push(addrB);
+            fieldPtr = bValues[addrB];
           } else {
             this.emitCoreAccess(w.id, raddrB, 'READ');
-            fieldPtr = this.core.get(raddrB).bValue;
+            if (instrumented) this.readAddrs.push(raddrB);
+            fieldPtr = bValues[raddrB];
           }
         }
 
@@ -329,10 +826,11 @@ export class Simulator {
         if (irBMode === AddressMode.B_PREDECR || irBMode === AddressMode.A_PREDECR) {
           fieldPtr--;
           if (fieldPtr < 0) fieldPtr = coreSize1;
+          if (this.instrumented) this.recordWrite(addrB);
           if (isAField) {
-            this.core.get(addrB).aValue = fieldPtr;
+            aValues[addrB] = fieldPtr;
           } else {
-            this.core.get(addrB).bValue = fieldPtr;
+            bValues[addrB] = fieldPtr;
           }
         }
 
@@ -341,29 +839,29 @@ export class Simulator {
         const raddrBBase = (irBMode !== AddressMode.A_INDIRECT && irBMode !== AddressMode.B_INDIRECT) ? addrB : raddrB;
         addrB = this.foldw(addrB + fieldPtr, progCnt);
         raddrB = this.foldr(raddrBBase + fieldPtr, progCnt);
-        AB_Value = this.core.get(raddrB).aValue;
-        irBValue = this.core.get(raddrB).bValue;
+        AB_Value = aValues[raddrB];
+        irBValue = bValues[raddrB];
 
         // Post-increment - write to the BASE offset cell (not final resolved addr)
         if (irBMode === AddressMode.B_POSTINC || irBMode === AddressMode.A_POSTINC) {
           fieldPtr++;
           if (fieldPtr === coreSize) fieldPtr = 0;
+          if (this.instrumented) this.recordWrite(baseWriteAddrB);
           if (isAField) {
-            this.core.get(baseWriteAddrB).aValue = fieldPtr;
+            aValues[baseWriteAddrB] = fieldPtr;
           } else {
-            this.core.get(baseWriteAddrB).bValue = fieldPtr;
+            bValues[baseWriteAddrB] = fieldPtr;
           }
         }
       } else {
-        const baseB = this.core.get(raddrB);
-        AB_Value = baseB.aValue;
-        irBValue = baseB.bValue;
+        AB_Value = aValues[raddrB];
+        irBValue = bValues[raddrB];
       }
     } else {
       addrB = progCnt;
       raddrB = progCnt;
-      irBValue = this.core.get(addrB).bValue;
-      AB_Value = this.core.get(addrB).aValue;
+      irBValue = bValues[addrB];
+      AB_Value = aValues[addrB];
     }
 
     // --- Execute instruction ---
@@ -371,6 +869,7 @@ export class Simulator {
     let pushNext = true;
     let nextAddr = addMod(progCnt, 1, coreSize);
     let died = false;
+    if (instrumented) this.recordOperandReads(opcode, addrA, raddrB);
 
     switch (opcode) {
       case Opcode.MOV:
@@ -471,7 +970,14 @@ export class Simulator {
       w.tasks--;
       if (w.tasks <= 0) {
         w.alive = false;
-        w.score[this.warriorsLeft + this.warriors.length - 2]++;
+        w.deathCycle = this.roundCycle;
+        const scoreIndex = deathScoreIndex(this.warriorsLeft, this.warriors.length);
+        if (this.pendingEntry) {
+          this.pendingEntry.scoreIndex = scoreIndex;
+          this.pendingEntry.nextWarrior = [...this.nextWarrior];
+          this.pendingEntry.prevWarrior = [...this.prevWarrior];
+        }
+        w.score[scoreIndex]++;
         // Adjust cycle count
         this.cycle = this.cycle - 1 - Math.floor((this.cycle - 1) / this.warriorsLeft);
         this.warriorsLeft--;
@@ -505,11 +1011,82 @@ export class Simulator {
       this.currentWarriorIdx = this.nextWarrior[this.currentWarriorIdx];
     }
     this.cycle--;
+
+    // A cycle completes when turn order wraps back past the round's first warrior
+    if (this.warriorsLeft === 0 || this.turnRank[this.currentWarriorIdx] <= this.turnRank[w.id]) {
+      this.roundCycle++;
+      this.cycleInProgress = false;
+    } else {
+      this.cycleInProgress = true;
+    }
+
+    if (!instrumented) return;
+    if (this.pendingEntry) {
+      const entry = this.pendingEntry;
+      this.pendingEntry = null;
+      if (this.tracing) {
+        this.lastTrace = {
+          cycle: cycleBefore,
+          warriorId: w.id,
+          pc: progCnt,
+          instruction: { opcode, modifier, aMode: irAMode, bMode: irBMode, aValue: rawAValue, bValue: rawBValue },
+          addrA,
+          addrB,
+          raddrB,
+          aRegister: { aValue: AA_Value, bValue: irAValue },
+          bRegister: { aValue: AB_Value, bValue: irBValue },
+          writes: entry.cells.map(c => ({ address: c.address, before: c.before, after: this.core.read(c.address) })),
+          pSpaceWrites: entry.pSpaceWrites.map(p => ({ ...p, after: this.pSpaces[p.pSpaceIndex].get(p.index) })),
+          process: {
+            queued: w.processQueue.toArray().slice(entry.queueSize),
+            split: opcode === Opcode.SPL && w.tasks > tasksBefore,
+            killed: died,
+            warriorDied: !w.alive,
+            tasksBefore,
+            tasksAfter: w.alive ? w.tasks : 0,
+          },
+        };
+      }
+      this.journal?.push(entry);
+    }
+
+    if (this.breakpoints.size > 0) {
+      this.breakHit = matchBreakpoint(this.breakpoints, {
+        warriorId: w.id,
+        pc: progCnt,
+        opcode,
+        modifier,
+        reads: this.readAddrs,
+        writes: this.writtenAddrs,
+        tasksBefore,
+        tasksAfter: w.alive ? w.tasks : 0,
+      }, this.warriors.map(w2 => w2.position), coreSize, cycleBefore);
+    }
+  }
+
+  /**
+   * End the round if it is still active. A round that has already ended is
+   * not scored again; its result is returned as it was.
+   */
+  private finishRound(): RoundResult {
+    if (this.roundActive) return this.endRound();
+    if (this.lastRoundResult) return this.lastRoundResult;
+    throw new Error('No round in progress. Call setupRound() first.');
   }
 
   private endRound(): RoundResult {
+    this.roundActive = false;
     let winnerId: number | null = null;
-    let outcome: 'WIN' | 'TIE' = 'TIE';
+    let outcome: RoundResult['outcome'] = 'TIE';
+
+    if (this.journal) {
+      this.journal.push({
+        kind: 'round-end',
+        lastResults: this.warriors.map(w => w.lastResult),
+        pSpaceLastResults: this.warriors.map(w => this.pSpaces[w.pSpaceIndex].lastResult),
+        scoreIndices: this.warriors.map(w => (w.alive ? this.warriorsLeft - 1 : null)),
+      });
+    }
 
     for (const w of this.warriors) {
       if (w.alive) {
@@ -528,17 +1105,35 @@ export class Simulator {
         winnerId = winner.id;
         outcome = 'WIN';
       }
+    } else if (this.warriors.length === 1) {
+      outcome = 'LOSS';
     }
 
-    const result: RoundResult = { winnerId, outcome };
+    const result: RoundResult = {
+      winnerId,
+      outcome,
+      survived: this.warriors.map(w => w.alive),
+      deathCycles: this.warriors.map(w => w.deathCycle),
+    };
 
     if (this.listener?.onRoundEnd) {
       this.listener.onRoundEnd({ winnerId });
     }
 
+    this.lastRoundResult = result;
     return result;
   }
 
+  private initialSeed(): number {
+    if (this.options.fixedPosition != null) {
+      // -F flag: use explicit fixed position, skip rng
+      return this.options.fixedPosition - this.options.minSeparation;
+    }
+    // -f flag seeds from warrior checksums specifically
+    const seed = this.options.fixedSeries ? this.checksumWarriors() : (this.options.seed ?? this.checksumWarriors());
+    return rng(seed);
+  }
+
   private checksumWarriors(): number {
     let checksum = 0;
     let shuffle = 0;
@@ -584,39 +1179,67 @@ export class Simulator {
     }
   }
 
+  /** Record reads of the operand cells whose values the opcode uses, for read breakpoints. */
+  private recordOperandReads(opcode: Opcode, addrA: number, raddrB: number): void {
+    switch (opcode) {
+      case Opcode.MOV:
+      case Opcode.LDP:
+        this.readAddrs.push(addrA);
+        break;
+      case Opcode.ADD:
+      case Opcode.SUB:
+      case Opcode.MUL:
+      case Opcode.DIV:
+      case Opcode.MOD:
+      case Opcode.CMP:
+      case Opcode.SEQ:
+      case Opcode.SNE:
+      case Opcode.SLT:
+      case Opcode.STP:
+        this.readAddrs.push(addrA, raddrB);
+        break;
+      case Opcode.JMZ:
+      case Opcode.JMN:
+      case Opcode.DJN:
+        this.readAddrs.push(raddrB);
+        break;
+    }
+  }
+
   // --- Opcode implementations ---
 
   private execMOV(mod: Modifier, addrA: number, addrB: number, AA: number, AVal: number, _AB: number, _BVal: number, wid: number): void {
     this.emitCoreAccess(wid, addrA, 'READ');
-    const dst = this.core.get(addrB);
+    if (this.instrumented) this.recordWrite(addrB);
+    const { aValues, bValues } = this.core;
     switch (mod) {
       case Modifier.A:
-        dst.aValue = AA;
+        aValues[addrB] = AA;
         break;
       case Modifier.B:
-        dst.bValue = AVal;
+        bValues[addrB] = AVal;
         break;
       case Modifier.AB:
-        dst.bValue = AA;
+        bValues[addrB] = AA;
         break;
       case Modifier.BA:
-        dst.aValue = AVal;
+        aValues[addrB] = AVal;
         break;
       case Modifier.F:
-        dst.aValue = AA;
-        dst.bValue = AVal;
+        aValues[addrB] = AA;
+        bValues[addrB] = AVal;
         break;
       case Modifier.X:
-        dst.bValue = AA;
-        dst.aValue = AVal;
+        bValues[addrB] = AA;
+        aValues[addrB] = AVal;
         break;
       case Modifier.I: {
-        const src = this.core.get(addrA);
-        dst.opcode = src.opcode;
-        dst.aMode = src.aMode;
-        dst.bMode = src.bMode;
-        dst.aValue = AA;
-        dst.bValue = AVal;
+        const { opcodes, aModes, bModes } = this.core;
+        opcodes[addrB] = opcodes[addrA];
+        aModes[addrB] = aModes[addrA];
+        bModes[addrB] = bModes[addrA];
+        aValues[addrB] = AA;
+        bValues[addrB] = AVal;
         break;
       }
     }
@@ -625,28 +1248,29 @@ export class Simulator {
 
   private execADD(mod: Modifier, addrA: number, addrB: number, AA: number, AVal: number, AB: number, BVal: number, cs: number, wid: number): void {
     this.emitCoreAccess(wid, addrA, 'READ');
-    const dst = this.core.get(addrB);
+    if (this.instrumented) this.recordWrite(addrB);
+    const { aValues, bValues } = this.core;
     switch (mod) {
       case Modifier.A:
-        dst.aValue = addMod(AB, AA, cs);
+        aValues[addrB] = addMod(AB, AA, cs);
         break;
       case Modifier.B:
-        dst.bValue = addMod(BVal, AVal, cs);
+        bValues[addrB] = addMod(BVal, AVal, cs);
         break;
       case Modifier.AB:
-        dst.bValue = addMod(BVal, AA, cs);
+        bValues[addrB] = addMod(BVal, AA, cs);
         break;
       case Modifier.BA:
-        dst.aValue = addMod(AB, AVal, cs);
+        aValues[addrB] = addMod(AB, AVal, cs);
         break;
       case Modifier.F:
       case Modifier.I:
-        dst.aValue = addMod(AB, AA, cs);
-        dst.bValue = addMod(BVal, AVal, cs);
+        aValues[addrB] = addMod(AB, AA, cs);
+        bValues[addrB] = addMod(BVal, AVal, cs);
         break;
       case Modifier.X:
-        dst.bValue = addMod(BVal, AA, cs);
-        dst.aValue = addMod(AB, AVal, cs);
+        bValues[addrB] = addMod(BVal, AA, cs);
+        aValues[addrB] = addMod(AB, AVal, cs);
         break;
     }
     this.emitCoreAccess(wid, addrB, 'WRITE');
@@ -654,28 +1278,29 @@ export class Simulator {
 
   private execSUB(mod: Modifier, addrA: number, addrB: number, AA: number, AVal: number, AB: number, BVal: number, cs: number, wid: number): void {
     this.emitCoreAccess(wid, addrA, 'READ');
-    const dst = this.core.get(addrB);
+    if (this.instrumented) this.recordWrite(addrB);
+    const { aValues, bValues } = this.core;
     switch (mod) {
       case Modifier.A:
-        dst.aValue = subMod(AB, AA, cs);
+        aValues[addrB] = subMod(AB, AA, cs);
         break;
       case Modifier.B:
-        dst.bValue = subMod(BVal, AVal, cs);
+        bValues[addrB] = subMod(BVal, AVal, cs);
         break;
       case Modifier.AB:
-        dst.bValue = subMod(BVal, AA, cs);
+        bValues[addrB] = subMod(BVal, AA, cs);
         break;
       case Modifier.BA:
-        dst.aValue = subMod(AB, AVal, cs);
+        aValues[addrB] = subMod(AB, AVal, cs);
         break;
       case Modifier.F:
       case Modifier.I:
-        dst.aValue = subMod(AB, AA, cs);
-        dst.bValue = subMod(BVal, AVal, cs);
+        aValues[addrB] = subMod(AB, AA, cs);
+        bValues[addrB] = subMod(BVal, AVal, cs);
         break;
       case Modifier.X:
-        dst.bValue = subMod(BVal, AA, cs);
-        dst.aValue = subMod(AB, AVal, cs);
+        bValues[addrB] = subMod(BVal, AA, cs);
+        aValues[addrB] = subMod(AB, AVal, cs);
         break;
     }
     this.emitCoreAccess(wid, addrB, 'WRITE');
@@ -683,28 +1308,29 @@ export class Simulator {
 
   private execMUL(mod: Modifier, addrA: number, addrB: number, AA: number, AVal: number, AB: number, BVal: number, cs: number, wid: number): void {
     this.emitCoreAccess(wid, addrA, 'READ');
-    const dst = this.core.get(addrB);
+    if (this.instrumented) this.recordWrite(addrB);
+    const { aValues, bValues } = this.core;
     switch (mod) {
       case Modifier.A:
-        dst.aValue = mulMod(AB, AA, cs);
+        aValues[addrB] = mulMod(AB, AA, cs);
         break;
       case Modifier.B:
-        dst.bValue = mulMod(BVal, AVal, cs);
+        bValues[addrB] = mulMod(BVal, AVal, cs);
         break;
       case Modifier.AB:
-        dst.bValue = mulMod(BVal, AA, cs);
+        bValues[addrB] = mulMod(BVal, AA, cs);
         break;
       case Modifier.BA:
-        dst.aValue = mulMod(AB, AVal, cs);
+        aValues[addrB] = mulMod(AB, AVal, cs);
         break;
       case Modifier.F:
       case Modifier.I:
-        dst.aValue = mulMod(AB, AA, cs);
-        dst.bValue = mulMod(BVal, AVal, cs);
+        aValues[addrB] = mulMod(AB, AA, cs);
+        bValues[addrB] = mulMod(BVal, AVal, cs);
         break;
       case Modifier.X:
-        dst.bValue = mulMod(BVal, AA, cs);
-        dst.aValue = mulMod(AB, AVal, cs);
+        bValues[addrB] = mulMod(BVal, AA, cs);
+        aValues[addrB] = mulMod(AB, AVal, cs);
         break;
     }
     this.emitCoreAccess(wid, addrB, 'WRITE');
@@ -712,47 +1338,55 @@ export class Simulator {
 
   private execDIV(mod: Modifier, addrA: number, addrB: number, AA: number, AVal: number, AB: number, BVal: number, cs: number, wid: number): boolean {
     this.emitCoreAccess(wid, addrA, 'READ');
-    const dst = this.core.get(addrB);
+    const { aValues, bValues } = this.core;
     switch (mod) {
       case Modifier.A:
         if (AA === 0) return true;
-        dst.aValue = Math.floor(AB / AA);
+        if (this.instrumented) this.recordWrite(addrB);
+        aValues[addrB] = Math.floor(AB / AA);
         break;
       case Modifier.B:
         if (AVal === 0) return true;
-        dst.bValue = Math.floor(BVal / AVal);
+        if (this.instrumented) this.recordWrite(addrB);
+        bValues[addrB] = Math.floor(BVal / AVal);
         break;
       case Modifier.AB:
         if (AA === 0) return true;
-        dst.bValue = Math.floor(BVal / AA);
+        if (this.instrumented) this.recordWrite(addrB);
+        bValues[addrB] = Math.floor(BVal / AA);
         break;
       case Modifier.BA:
         if (AVal === 0) return true;
-        dst.aValue = Math.floor(AB / AVal);
+        if (this.instrumented) this.recordWrite(addrB);
+        aValues[addrB] = Math.floor(AB / AVal);
         break;
       case Modifier.F:
       case Modifier.I:
         if (AA !== 0) {
-          dst.aValue = Math.floor(AB / AA);
+          if (this.instrumented) this.recordWrite(addrB);
+          aValues[addrB] = Math.floor(AB / AA);
           this.emitCoreAccess(wid, addrB, 'WRITE');
           if (AVal === 0) return true;
-          dst.bValue = Math.floor(BVal / AVal);
+          bValues[addrB] = Math.floor(BVal / AVal);
         } else {
           if (AVal === 0) return true;
-          dst.bValue = Math.floor(BVal / AVal);
+          if (this.instrumented) this.recordWrite(addrB);
+          bValues[addrB] = Math.floor(BVal / AVal);
           this.emitCoreAccess(wid, addrB, 'WRITE');
           return true;
         }
         break;
       case Modifier.X:
         if (AVal !== 0) {
-          dst.aValue = Math.floor(AB / AVal);
+          if (this.instrumented) this.recordWrite(addrB);
+          aValues[addrB] = Math.floor(AB / AVal);
           this.emitCoreAccess(wid, addrB, 'WRITE');
           if (AA === 0) return true;
-          dst.bValue = Math.floor(BVal / AA);
+          bValues[addrB] = Math.floor(BVal / AA);
         } else {
           if (AA === 0) return true;
-          dst.bValue = Math.floor(BVal / AA);
+          if (this.instrumented) this.recordWrite(addrB);
+          bValues[addrB] = Math.floor(BVal / AA);
           this.emitCoreAccess(wid, addrB, 'WRITE');
           return true;
         }
@@ -764,47 +1398,55 @@ export class Simulator {
 
   private execMOD(mod: Modifier, addrA: number, addrB: number, AA: number, AVal: number, AB: number, BVal: number, _cs: number, wid: number): boolean {
     this.emitCoreAccess(wid, addrA, 'READ');
-    const dst = this.core.get(addrB);
+    const { aValues, bValues } = this.core;
     switch (mod) {
       case Modifier.A:
         if (AA === 0) return true;
-        dst.aValue = AB % AA;
+        if (this.instrumented) this.recordWrite(addrB);
+        aValues[addrB] = AB % AA;
         break;
       case Modifier.B:
         if (AVal === 0) return true;
-        dst.bValue = BVal % AVal;
+        if (this.instrumented) this.recordWrite(addrB);
+        bValues[addrB] = BVal % AVal;
         break;
       case Modifier.AB:
         if (AA === 0) return true;
-        dst.bValue = BVal % AA;
+        if (this.instrumented) this.recordWrite(addrB);
+        bValues[addrB] = BVal % AA;
         break;
       case Modifier.BA:
         if (AVal === 0) return true;
-        dst.aValue = AB % AVal;
+        if (this.instrumented) this.recordWrite(addrB);
+        aValues[addrB] = AB % AVal;
         break;
       case Modifier.F:
       case Modifier.I:
         if (AA !== 0) {
-          dst.aValue = AB % AA;
+          if (this.instrumented) this.recordWrite(addrB);
+          aValues[addrB] = AB % AA;
           this.emitCoreAccess(wid, addrB, 'WRITE');
           if (AVal === 0) return true;
-          dst.bValue = BVal % AVal;
+          bValues[addrB] = BVal % AVal;
         } else {
           if (AVal === 0) return true;
-          dst.bValue = BVal % AVal;
+          if (this.instrumented) this.recordWrite(addrB);
+          bValues[addrB] = BVal % AVal;
           this.emitCoreAccess(wid, addrB, 'WRITE');
           return true;
         }
         break;
       case Modifier.X:
         if (AVal !== 0) {
-          dst.aValue = AB % AVal;
+          if (this.instrumented) this.recordWrite(addrB);
+          aValues[addrB] = AB % AVal;
           this.emitCoreAccess(wid, addrB, 'WRITE');
           if (AA === 0) return true;
-          dst.bValue = BVal % AA;
+          bValues[addrB] = BVal % AA;
         } else {
           if (AA === 0) return true;
-          dst.bValue = BVal % AA;
+          if (this.instrumented) this.recordWrite(addrB);
+          bValues[addrB] = BVal % AA;
           this.emitCoreAccess(wid, addrB, 'WRITE');
           return true;
         }
@@ -847,29 +1489,30 @@ export class Simulator {
   }
 
   private execDJN(mod: Modifier, _addrA: number, addrB: number, AB: number, BVal: number, cs1: number, wid: number): boolean {
-    const dst = this.core.get(addrB);
+    if (this.instrumented) this.recordWrite(addrB);
+    const { aValues, bValues } = this.core;
     switch (mod) {
       case Modifier.A:
       case Modifier.BA: {
-        dst.aValue--;
-        if (dst.aValue < 0) dst.aValue = cs1;
+        aValues[addrB]--;
+        if (aValues[addrB] < 0) aValues[addrB] = cs1;
         this.emitCoreAccess(wid, addrB, 'WRITE');
         return AB !== 1;
       }
       case Modifier.B:
       case Modifier.AB: {
-        dst.bValue--;
-        if (dst.bValue < 0) dst.bValue = cs1;
+        bValues[addrB]--;
+        if (bValues[addrB] < 0) bValues[addrB] = cs1;
         this.emitCoreAccess(wid, addrB, 'WRITE');
         return BVal !== 1;
       }
       case Modifier.F:
       case Modifier.I:
       case Modifier.X: {
-        dst.bValue--;
-        if (dst.bValue < 0) dst.bValue = cs1;
-        dst.aValue--;
-        if (dst.aValue < 0) dst.aValue = cs1;
+        bValues[addrB]--;
+        if (bValues[addrB] < 0) bValues[addrB] = cs1;
+        aValues[addrB]--;
+        if (aValues[addrB] < 0) aValues[addrB] = cs1;
         this.emitCoreAccess(wid, addrB, 'WRITE');
         return !(AB === 1 && BVal === 1);
       }
@@ -892,9 +1535,8 @@ export class Simulator {
       case Modifier.X:
         return BVal === AA && AB === AVal;
       case Modifier.I: {
-        const a = this.core.get(addrA);
-        const b = this.core.get(raddrB);
-        return a.opcode === b.opcode && a.aMode === b.aMode && a.bMode === b.bMode &&
+        const { opcodes, aModes, bModes } = this.core;
+        return opcodes[addrA] === opcodes[raddrB] && aModes[addrA] === aModes[raddrB] && bModes[addrA] === bModes[raddrB] &&
                AA === AB && AVal === BVal;
       }
       default: { const _exhaustive: never = mod; throw new Error(`Unexpected modifier: ${_exhaustive}`); }
@@ -922,7 +1564,8 @@ export class Simulator {
 
   private execLDP(mod: Modifier, _addrA: number, addrB: number, AA: number, AVal: number, w: SimWarrior, _cs: number): void {
     const ps = this.pSpaces[w.pSpaceIndex];
-    const dst = this.core.get(addrB);
+    if (this.instrumented) this.recordWrite(addrB);
+    const { aValues, bValues } = this.core;
     // Helper: get pspace value, using warrior's lastResult for index 0
     const pget = (index: number): number => {
       if (index % ps.size === 0) return w.lastResult;
@@ -930,19 +1573,19 @@ export class Simulator {
     };
     switch (mod) {
       case Modifier.A:
-        dst.aValue = pget(AA);
+        aValues[addrB] = pget(AA);
         break;
       case Modifier.B:
       case Modifier.F:
       case Modifier.X:
       case Modifier.I:
-        dst.bValue = pget(AVal);
+        bValues[addrB] = pget(AVal);
         break;
       case Modifier.AB:
-        dst.bValue = pget(AA);
+        bValues[addrB] = pget(AA);
         break;
       case Modifier.BA:
-        dst.aValue = pget(AVal);
+        aValues[addrB] = pget(AVal);
         break;
     }
     this.emitCoreAccess(w.id, addrB, 'WRITE');
@@ -955,6 +1598,7 @@ export class Simulator {
       if (index % ps.size === 0) {
         w.lastResult = value;
       } else {
+        this.pendingEntry?.pSpaceWrites.push({ pSpaceIndex: w.pSpaceIndex, index, before: ps.get(index) });
         ps.set(index, value);
       }
     };
@@ -977,6 +1621,106 @@ export class Simulator {
     }
   }
 
+  /** Capture the complete simulation state as plain, JSON-safe data. */
+  snapshot(): SimulatorSnapshot {
+    if (!this.initialized) {
+      throw new Error('Simulator not initialized. Call loadWarriors() first.');
+    }
+    const core: Instruction[] = new Array(this.options.coreSize);
+    for (let i = 0; i < this.options.coreSize; i++) {
+      core[i] = this.core.read(i);
+    }
+    return {
+      version: SNAPSHOT_VERSION,
+      options: { ...this.options },
+      warriorData: this.warriorData.map(wd => ({
+        ...wd,
+        instructions: wd.instructions.map(inst => ({ ...inst })),
+        ...(wd.warnings ? { warnings: [...wd.warnings] } : {}),
+      })),
+      core,
+      warriors: this.warriors.map(w => ({
+        processQueue: w.processQueue.toArray(),
+        tasks: w.tasks,
+        alive: w.alive,
+        deathCycle: w.deathCycle,
+        lastResult: w.lastResult,
+        position: w.position,
+        score: [...w.score],
+        pSpaceIndex: w.pSpaceIndex,
+      })),
+      pSpaces: this.pSpaces.map(ps => ({ values: ps.toArray(), lastResult: ps.lastResult })),
+      seed: this.seed,
+      cycle: this.cycle,
+      roundCycle: this.roundCycle,
+      cycleInProgress: this.cycleInProgress,
+      roundNum: this.roundNum,
+      totalCycles: this.totalCycles,
+      warriorsLeft: this.warriorsLeft,
+      currentWarriorIdx: this.currentWarriorIdx,
+      nextWarrior: [...this.nextWarrior],
+      prevWarrior: [...this.prevWarrior],
+      roundActive: this.roundActive,
+      lastRoundResult: copyRoundResult(this.lastRoundResult),
+    };
+  }
+
+  /** Replace the entire simulation state (options, warriors and core) with a snapshot. */
+  restore(snapshot: SimulatorSnapshot): void {
+    validateSnapshot(snapshot);
+
+    this.options = { ...snapshot.options };
+    const coreSize = this.options.coreSize;
+    if (this.core.size !== coreSize) {
+      this.core = new Core(coreSize);
+    }
+    for (let i = 0; i < coreSize; i++) {
+      this.core.set(i, snapshot.core[i]);
+    }
+
+    this.warriorData = snapshot.warriorData.map(wd => ({ ...wd, instructions: wd.instructions.map(inst => ({ ...inst })) }));
+    const warriorCount = this.warriorData.length;
+    this.warriors = this.warriorData.map((wd, i) => {
+      const w = new SimWarrior(i, wd, this.options.maxProcesses, warriorCount, coreSize);
+      const ws = snapshot.warriors[i];
+      w.processQueue.load(ws.processQueue);
+      w.tasks = ws.tasks;
+      w.alive = ws.alive;
+      w.deathCycle = ws.deathCycle;
+      w.lastResult = ws.lastResult;
+      w.position = ws.position;
+      w.score = [...ws.score];
+      w.pSpaceIndex = ws.pSpaceIndex;
+      return w;
+    });
+
+    const pSpaceSize = this.options.pSpaceSize > 0
+      ? this.options.pSpaceSize
+      : computePSpaceSize(coreSize);
+    this.pSpaces = snapshot.pSpaces.map(pss => {
+      const ps = new PSpace(pSpaceSize, coreSize);
+      ps.load(pss.values);
+      ps.lastResult = pss.lastResult;
+      return ps;
+    });
+
+    this.seed = snapshot.seed;
+    this.cycle = snapshot.cycle;
+    this.roundCycle = snapshot.roundCycle;
+    this.cycleInProgress = snapshot.cycleInProgress;
+    this.roundNum = snapshot.roundNum;
+    this.totalCycles = snapshot.totalCycles;
+    this.warriorsLeft = snapshot.warriorsLeft;
+    this.currentWarriorIdx = snapshot.currentWarriorIdx;
+    this.nextWarrior = [...snapshot.nextWarrior];
+    this.prevWarrior = [...snapshot.prevWarrior];
+    this.roundActive = snapshot.roundActive;
+    if (snapshot.roundNum > 0) this.updateTurnRanks();
+    this.lastRoundResult = copyRoundResult(snapshot.lastRoundResult);
+    this.journal?.clear();
+    this.initialized = true;
+  }
+
   getCore(): Core {
     return this.core;
   }
@@ -0,0 +1,95 @@
+import { type Instruction } from '../types.js';
+
+export interface CellChange {
+  address: number;
+  before: Instruction;
+}
+
+export interface PSpaceChange {
+  pSpaceIndex: number;
+  index: number;
+  before: number;
+}
+
+/** Everything needed to reverse one executeOneCycle() call. */
+export interface CycleEntry {
+  kind: 'cycle';
+  warriorIdx: number;
+  progCnt: number;
+  /** Process queue size after the program counter was popped */
+  queueSize: number;
+  tasks: number;
+  alive: boolean;
+  lastResult: number;
+  cycle: number;
+  roundCycle: number;
+  cycleInProgress: boolean;
+  warriorsLeft: number;
+  currentWarriorIdx: number;
+  cells: CellChange[];
+  pSpaceWrites: PSpaceChange[];
+  /** Score slot incremented when the warrior died this cycle */
+  scoreIndex: number | null;
+  nextWarrior: number[] | null;
+  prevWarrior: number[] | null;
+}
+
+/** Bookkeeping written by endRound(), reversed together with the final cycle. */
+export interface RoundEndEntry {
+  kind: 'round-end';
+  lastResults: number[];
+  pSpaceLastResults: number[];
+  scoreIndices: (number | null)[];
+}
+
+export type JournalEntry = CycleEntry | RoundEndEntry;
+
+/** Bounded undo stack: once full, the oldest entries are discarded. */
+export class UndoJournal {
+  private entries: (JournalEntry | undefined)[];
+  private start = 0;
+  private count = 0;
+  readonly depth: number;
+
+  constructor(depth: number) {
+    if (!Number.isInteger(depth) || depth < 1) {
+      throw new Error(`Undo depth must be a positive integer, got ${depth}`);
+    }
+    this.depth = depth;
+    this.entries = new Array(depth);
+  }
+
+  push(entry: JournalEntry): void {
+    if (this.count === this.depth) {
+      // Drop the oldest entry to make room
+      this.start = (this.start + 1) % this.depth;
+      this.count--;
+    }
+    this.entries[(this.start + this.count) % this.depth] = entry;
+    this.count++;
+  }
+
+  pop(): JournalEntry | undefined {
+    if (this.count === 0) return undefined;
+    this.count--;
+    const idx = (this.start + this.count) % this.depth;
+    const entry = this.entries[idx];
+    this.entries[idx] = undefined;
+    return entry;
+  }
+
+  peek(): JournalEntry | undefined {
+    if (this.count === 0) return undefined;
+    return this.entries[(this.start + this.count - 1) % this.depth];
+  }
+
+  clear(): void {
+    this.entries = new Array(this.depth);
+    this.start = 0;
+    this.count = 0;
+  }
+
+  get size(): number {
+    return this.count;
+  }
+}
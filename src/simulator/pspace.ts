@@ -41,4 +41,16 @@ export class PSpace {
   clearKeepResult(): void {
     this.space.fill(0);
   }
+
+  /** Copy of the raw cells. Index 0 is unused; see lastResult. */
+  toArray(): number[] {
+    return [...this.space];
+  }
+
+  load(values: number[]): void {
+    if (values.length !== this.size) {
+      throw new Error(`P-space size mismatch: expected ${this.size} values, got ${values.length}`);
+    }
+    for (let i = 0; i < this.size; i++) this.space[i] = values[i];
+  }
 }
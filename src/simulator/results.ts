@@ -0,0 +1,133 @@
+import { type RoundResult } from './index.js';
+import { deathScoreIndex } from './warrior.js';
+
+export interface WarriorBattleResult {
+  id: number;
+  name: string;
+  author: string;
+  /** Rounds this warrior finished as the sole survivor */
+  wins: number;
+  /** Rounds this warrior survived alongside at least one other warrior */
+  ties: number;
+  /** Rounds this warrior died in */
+  losses: number;
+  /** Standard score: 3 * wins + ties */
+  score: number;
+  /**
+   * survivedWith[k - 1] is the number of rounds that ended with this warrior
+   * alive and k warriors alive in total (index 0 equals wins).
+   */
+  survivedWith: number[];
+  /**
+   * diedWith[k - 1] is the number of rounds in which this warrior died while
+   * k warriors (including itself) were still alive.
+   */
+  diedWith: number[];
+  /** 1-based round number of the first round this warrior died in, or null */
+  firstLossRound: number | null;
+}
+
+export interface BattleResult {
+  rounds: number;
+  warriors: WarriorBattleResult[];
+  roundResults: RoundResult[];
+  /** Cycles executed in each round */
+  roundCycles: number[];
+}
+
+export interface BattleTally {
+  warriors: { id: number; name: string; author: string }[];
+  /** Per-warrior pMARS score[] arrays accumulated over the battle's rounds only */
+  scores: number[][];
+  roundResults: RoundResult[];
+  roundCycles: number[];
+  firstLossRounds: (number | null)[];
+}
+
+/**
+ * Decode pMARS score[] arrays into readable per-warrior results. score[k - 1]
+ * counts rounds survived with k warriors left; score[W + k - 2] counts deaths
+ * that happened while k warriors were alive (W = warrior count). A lone
+ * warrior's deaths are in score[1].
+ */
+export function buildBattleResult(tally: BattleTally): BattleResult {
+  const warriorCount = tally.warriors.length;
+  const warriors = tally.warriors.map((info, i) => {
+    const score = tally.scores[i];
+    const survivedWith = score.slice(0, warriorCount);
+    const diedWith: number[] = new Array(warriorCount).fill(0);
+    for (let k = Math.min(2, warriorCount); k <= warriorCount; k++) {
+      diedWith[k - 1] = score[deathScoreIndex(k, warriorCount)];
+    }
+    const wins = survivedWith[0];
+    const ties = survivedWith.slice(1).reduce((a, b) => a + b, 0);
+    const losses = diedWith.reduce((a, b) => a + b, 0);
+    return {
+      id: info.id,
+      name: info.name,
+      author: info.author,
+      wins,
+      ties,
+      losses,
+      score: 3 * wins + ties,
+      survivedWith,
+      diedWith,
+      firstLossRound: tally.firstLossRounds[i],
+    };
+  });
+
+  return {
+    rounds: tally.roundResults.length,
+    warriors,
+    roundResults: tally.roundResults,
+    roundCycles: tally.roundCycles,
+  };
+}
+
+/**
+ * Combine results of consecutive runs of the same warriors into one, as if
+ * the rounds had been run in a single battle. Parts must be in round order.
+ */
+export function mergeBattleResults(parts: BattleResult[]): BattleResult {
+  if (parts.length === 0) throw new Error('No battle results to merge');
+  const sum = (a: number[], b: number[]): number[] => a.map((v, k) => v + b[k]);
+  let roundOffset = 0;
+  const merged: BattleResult = {
+    rounds: 0,
+    warriors: parts[0].warriors.map(w => ({
+      ...w,
+      wins: 0,
+      ties: 0,
+      losses: 0,
+      score: 0,
+      survivedWith: w.survivedWith.map(() => 0),
+      diedWith: w.diedWith.map(() => 0),
+      firstLossRound: null,
+    })),
+    roundResults: [],
+    roundCycles: [],
+  };
+
+  for (const part of parts) {
+    if (part.warriors.length !== merged.warriors.length) {
+      throw new Error('Cannot merge battle results with different warrior counts');
+    }
+    part.warriors.forEach((w, i) => {
+      const m = merged.warriors[i];
+      m.wins += w.wins;
+      m.ties += w.ties;
+      m.losses += w.losses;
+      m.score += w.score;
+      m.survivedWith = sum(m.survivedWith, w.survivedWith);
+      m.diedWith = sum(m.diedWith, w.diedWith);
+      if (m.firstLossRound === null && w.firstLossRound !== null) {
+        m.firstLossRound = w.firstLossRound + roundOffset;
+      }
+    });
+    merged.roundResults.push(...part.roundResults);
+    merged.roundCycles.push(...part.roundCycles);
+    merged.rounds += part.rounds;
+    roundOffset += part.rounds;
+  }
+  return merged;
+}
@@ -0,0 +1,81 @@
+import { type Instruction, type WarriorData, type SimulatorOptions } from '../types.js';
+import { type RoundResult } from './index.js';
+
+/**
+ * Bumped whenever the snapshot layout changes incompatibly. Version 2 added
+ * the round cycle counters, warrior death cycles and round status.
+ */
+export const SNAPSHOT_VERSION = 2;
+
+export interface WarriorSnapshot {
+  processQueue: number[];
+  tasks: number;
+  alive: boolean;
+  deathCycle: number | null;
+  lastResult: number;
+  position: number;
+  score: number[];
+  pSpaceIndex: number;
+}
+
+export interface PSpaceSnapshot {
+  values: number[];
+  lastResult: number;
+}
+
+/**
+ * Complete mid-round simulator state. Contains only plain numbers, strings,
+ * booleans, arrays and objects so it survives a JSON round trip unchanged.
+ */
+export interface SimulatorSnapshot {
+  version: number;
+  options: SimulatorOptions;
+  warriorData: WarriorData[];
+  core: Instruction[];
+  warriors: WarriorSnapshot[];
+  pSpaces: PSpaceSnapshot[];
+  seed: number;
+  cycle: number;
+  roundCycle: number;
+  cycleInProgress: boolean;
+  roundNum: number;
+  totalCycles: number;
+  warriorsLeft: number;
+  currentWarriorIdx: number;
+  nextWarrior: number[];
+  prevWarrior: number[];
+  /** True between setupRound() and the step that scores the round */
+  roundActive: boolean;
+  /** Result of the last scored round, returned again until the next round is set up */
+  lastRoundResult: RoundResult | null;
+}
+
+/** Throw if a snapshot cannot be restored into a simulator. */
+export function validateSnapshot(snapshot: SimulatorSnapshot): void {
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version ${snapshot.version} (expected ${SNAPSHOT_VERSION})`);
+  }
+  const warriorCount = snapshot.warriorData.length;
+  if (snapshot.warriors.length !== warriorCount || snapshot.pSpaces.length !== warriorCount) {
+    throw new Error('Snapshot warrior, P-space and warrior data counts do not match');
+  }
+  if (snapshot.nextWarrior.length !== warriorCount || snapshot.prevWarrior.length !== warriorCount) {
+    throw new Error('Snapshot warrior linked list does not match warrior count');
+  }
+  if (snapshot.core.length !== snapshot.options.coreSize) {
+    throw new Error(`Snapshot core has ${snapshot.core.length} cells, expected ${snapshot.options.coreSize}`);
+  }
+  if (snapshot.roundActive && snapshot.roundNum < 1) {
+    throw new Error('Snapshot has an active round before the first round was set up');
+  }
+  for (const w of snapshot.warriors) {
+    if (w.processQueue.length > snapshot.options.maxProcesses) {
+      throw new Error(`Snapshot process queue exceeds maxProcesses (${snapshot.options.maxProcesses})`);
+    }
+  }
+}
+
+/** Copy a round result so a snapshot does not share arrays with live state. */
+export function copyRoundResult(result: RoundResult | null): RoundResult | null {
+  return result && { ...result, survived: [...result.survived], deathCycles: [...result.deathCycles] };
+}
@@ -0,0 +1,59 @@
+import { type Instruction, type Opcode, type Modifier, type AddressMode } from '../types.js';
+
+export interface DecodedInstruction {
+  opcode: Opcode;
+  modifier: Modifier;
+  aMode: AddressMode;
+  bMode: AddressMode;
+  aValue: number;
+  bValue: number;
+}
+
+/** A-field and B-field values of an operand register after address resolution. */
+export interface RegisterValues {
+  aValue: number;
+  bValue: number;
+}
+
+export interface CellWrite {
+  address: number;
+  before: Instruction;
+  after: Instruction;
+}
+
+export interface PSpaceWrite {
+  pSpaceIndex: number;
+  index: number;
+  before: number;
+  after: number;
+}
+
+/** What happened to the executing warrior's processes. */
+export interface ProcessEffect {
+  /** Addresses appended to the process queue, in order */
+  queued: number[];
+  /** SPL created an additional process */
+  split: boolean;
+  /** The executing process was removed (DAT, division by zero) */
+  killed: boolean;
+  /** The warrior lost its last process */
+  warriorDied: boolean;
+  tasksBefore: number;
+  tasksAfter: number;
+}
+
+/** Full record of one executed instruction, produced by Simulator.stepTraced(). */
+export interface StepTrace {
+  cycle: number;
+  warriorId: number;
+  pc: number;
+  instruction: DecodedInstruction;
+  addrA: number;
+  addrB: number;
+  raddrB: number;
+  aRegister: RegisterValues;
+  bRegister: RegisterValues;
+  writes: CellWrite[];
+  pSpaceWrites: PSpaceWrite[];
+  process: ProcessEffect;
+}
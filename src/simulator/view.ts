@@ -0,0 +1,40 @@
+import { type Instruction } from '../types.js';
+import { type SimWarrior } from './warrior.js';
+
+/** Read-only view of one warrior, reflecting its live state. */
+export interface WarriorView {
+  readonly id: number;
+  readonly name: string;
+  readonly author: string;
+  readonly position: number;
+  readonly tasks: number;
+  readonly alive: boolean;
+  /** Copy of the process queue, next process first */
+  processes(): number[];
+}
+
+/** Read-only view of the simulator passed to runUntil() predicates. */
+export interface SimulatorView {
+  /** 1-based number of the current round */
+  readonly round: number;
+  /** Cycles completed in the current round */
+  readonly cycle: number;
+  readonly warriorsLeft: number;
+  /** Warrior that executes next */
+  readonly currentWarrior: number;
+  readonly warriors: readonly WarriorView[];
+  /** Copy of the instruction at an address (wrapped into the core) */
+  read(address: number): Instruction;
+}
+
+export function createWarriorView(w: SimWarrior): WarriorView {
+  return {
+    id: w.id,
+    name: w.name,
+    author: w.author,
+    get position() { return w.position; },
+    get tasks() { return w.tasks; },
+    get alive() { return w.alive; },
+    processes: () => w.processQueue.toArray(),
+  };
+}
@@ -2,6 +2,14 @@ import { CircularQueue } from '../utils/circular-queue.js';
 import { type WarriorData, type WarriorState } from '../types.js';
 import { normalize } from '../utils/modular-arithmetic.js';
 
+/**
+ * Index into score[] counting deaths with `warriorsLeft` warriors alive. A lone
+ * warrior's deaths go to score[1], after its survivals in score[0].
+ */
+export function deathScoreIndex(warriorsLeft: number, warriorCount: number): number {
+  return warriorCount === 1 ? 1 : warriorsLeft + warriorCount - 2;
+}
+
 export class SimWarrior {
   id: number;
   name: string;
@@ -15,6 +23,8 @@ export class SimWarrior {
   pSpaceIndex: number;
   pSpaceIDNumber: number;
   alive: boolean;
+  /** 0-based cycle of the current round in which the warrior died, or null */
+  deathCycle: number | null;
 
   constructor(id: number, data: WarriorData, maxProcesses: number, maxWarriors: number, coreSize: number) {
     this.id = id;
@@ -24,11 +34,12 @@ export class SimWarrior {
     this.position = 0;
     this.startOffset = data.startOffset;
     this.tasks = 0;
-    this.score = new Array(maxWarriors * 2 - 1).fill(0);
+    this.score = new Array(Math.max(maxWarriors * 2 - 1, 2)).fill(0);
     this.lastResult = coreSize - 1;
     this.pSpaceIndex = id;
     this.pSpaceIDNumber = data.pin ?? id;
     this.alive = true;
+    this.deathCycle = null;
   }
 
   reset(position: number, coreSize: number): void {
@@ -37,6 +48,7 @@ export class SimWarrior {
     this.processQueue.push(normalize(position + this.startOffset, coreSize));
     this.tasks = 1;
     this.alive = true;
+    this.deathCycle = null;
   }
 
   pushProcess(addr: number): void {
@@ -73,6 +73,8 @@ export interface SimulatorOptions {
   seed: number | null;
   fixedSeries: boolean;
   fixedPosition: number | null;
+  /** Enforce ICWS'88 rules (pMARS -8) */
+  icws88: boolean;
 }
 
 export interface WarriorState {
@@ -104,6 +106,7 @@ export const DEFAULT_OPTIONS: SimulatorOptions = {
   seed: null,
   fixedSeries: false,
   fixedPosition: null,
+  icws88: false,
 };
 
 export const OPCODE_NAMES = [
@@ -26,6 +26,20 @@ export class CircularQueue {
     return value;
   }
 
+  /** Remove and return the most recently pushed value. */
+  popBack(): number {
+    this.tail = (this.tail - 1 + this.capacity) % this.capacity;
+    this._size--;
+    return this.buffer[this.tail];
+  }
+
+  /** Put a value back at the head, undoing a pop(). */
+  pushFront(value: number): void {
+    this.head = (this.head - 1 + this.capacity) % this.capacity;
+    this.buffer[this.head] = value;
+    this._size++;
+  }
+
   peek(): number {
     return this.buffer[this.head];
   }
@@ -44,6 +58,15 @@ export class CircularQueue {
     this._size = 0;
   }
 
+  /** Replace the queue contents with values, head first. */
+  load(values: number[]): void {
+    if (values.length > this.capacity) {
+      throw new Error(`Queue capacity ${this.capacity} exceeded (${values.length} values)`);
+    }
+    this.clear();
+    for (const value of values) this.push(value);
+  }
+
   toArray(): number[] {
     const result: number[] = [];
     let idx = this.head;
@@ -0,0 +1,144 @@
+import { normalize, mulMod } from './modular-arithmetic.js';
+
+export interface StepOptions {
+  /** Only rate steps whose gcd with the core size is `mod`: 4 for mod-4 steps, 5 for mod-5 (default 1, coprime steps) */
+  mod?: number;
+  /** Cells hit per bomb or scan relative to the pointer, e.g. [0, 10] for a scanner comparing two cells (default [0]) */
+  offsets?: number[];
+  /** Bombs or scans to evaluate (default: as many as it takes to hit every reachable cell) */
+  bombs?: number;
+  /** Smallest step to consider (default `mod`) */
+  minStep?: number;
+  /** Largest step to consider (default coreSize / 2; larger steps mirror smaller ones) */
+  maxStep?: number;
+  /** Number of ranked steps to return (default 10) */
+  count?: number;
+}
+
+export interface StepRating {
+  step: number;
+  /** gcd of the step and the core size; bombs end up on every `mod`th cell */
+  mod: number;
+  coprime: boolean;
+  /**
+   * How evenly the bombs fill the core, from 0 to 1: the mean over every bomb
+   * count k of the smallest possible largest gap divided by the actual one
+   */
+  quality: number;
+  /** Largest gap between hit cells after k bombs, at index k - 1 */
+  gaps: number[];
+}
+
+export interface ImpRing {
+  points: number;
+  step: number;
+}
+
+/**
+ * Rate a bombing or scanning step: drop bombs at `step`, `2 * step`, ... and
+ * record the largest gap between hit cells after each one.
+ */
+export function rateStep(step: number, coreSize: number, options: Pick<StepOptions, 'offsets' | 'bombs'> = {}): StepRating {
+  const s = normalize(step, coreSize);
+  const mod = gcd(s, coreSize);
+  const gaps: number[] = [];
+  const quality = evaluate(s, coreSize, options.offsets ?? [0], options.bombs ?? defaultBombs(coreSize, mod, options.offsets), gaps);
+  return { step: s, mod, coprime: mod === 1, quality, gaps };
+}
+
+/**
+ * Find the best bombing or scanning steps of one mod class for a core size,
+ * ranked by `quality`; equally good steps are ordered smallest first.
+ */
+export function findSteps(coreSize: number, options: StepOptions = {}): StepRating[] {
+  const mod = options.mod ?? 1;
+  if (!Number.isInteger(mod) || mod < 1 || coreSize % mod !== 0) {
+    throw new Error(`mod ${mod} does not divide core size ${coreSize}`);
+  }
+  const offsets = options.offsets ?? [0];
+  const bombs = options.bombs ?? defaultBombs(coreSize, mod, offsets);
+  const maxStep = Math.min(options.maxStep ?? Math.floor(coreSize / 2), coreSize - 1);
+  const candidates: { step: number; quality: number }[] = [];
+  for (let step = Math.max(options.minStep ?? mod, 1); step <= maxStep; step++) {
+    if (gcd(step, coreSize) !== mod) continue;
+    candidates.push({ step, quality: evaluate(step, coreSize, offsets, bombs, null) });
+  }
+  candidates.sort((a, b) => b.quality - a.quality || a.step - b.step);
+  return candidates.slice(0, options.count ?? 10).map(c => rateStep(c.step, coreSize, { offsets, bombs }));
+}
+
+/**
+ * The step of an n-point imp ring: the `points` imps are `step` apart and
+ * `points * step ≡ 1 (mod coreSize)`, so each imp continues where the one
+ * ahead of it left off. Null when `points` shares a factor with the core size.
+ */
+export function impStep(points: number, coreSize: number): number | null {
+  // Extended Euclid for the inverse of points mod coreSize
+  let [r0, r1] = [normalize(points, coreSize), coreSize];
+  let [t0, t1] = [1, 0];
+  while (r1 !== 0) {
+    const q = Math.floor(r0 / r1);
+    [r0, r1] = [r1, r0 - q * r1];
+    [t0, t1] = [t1, t0 - q * t1];
+  }
+  return r0 === 1 ? normalize(t0, coreSize) : null;
+}
+
+/** Imp ring steps for 2 to `maxPoints` points, skipping point counts that have none. */
+export function impRings(coreSize: number, maxPoints = 16): ImpRing[] {
+  const rings: ImpRing[] = [];
+  for (let points = 2; points <= maxPoints; points++) {
+    const step = impStep(points, coreSize);
+    if (step !== null) rings.push({ points, step });
+  }
+  return rings;
+}
+
+function gcd(a: number, b: number): number {
+  while (b !== 0) [a, b] = [b, a % b];
+  return a;
+}
+
+/** Bombs until every cell reachable with this mod is hit. */
+function defaultBombs(coreSize: number, mod: number, offsets: number[] = [0]): number {
+  return Math.ceil(coreSize / mod / offsets.length);
+}
+
+/** Weighted mean ratio of the ideal to the actual largest gap over `bombs` bombs; fills `gaps` if given. */
+function evaluate(step: number, coreSize: number, offsets: number[], bombs: number, gaps: number[] | null): number {
+  const hit = new Uint8Array(coreSize);
+  // Number of gaps of each length; gaps only ever shrink, so the largest one is found by walking down
+  const gapCounts = new Int32Array(coreSize + 1);
+  let largest = coreSize;
+  let points = 0;
+  let total = 0;
+  let weights = 0;
+
+  for (let k = 1; k <= bombs; k++) {
+    const pointer = mulMod(step, k, coreSize);
+    for (const offset of offsets) {
+      const cell = normalize(pointer + offset, coreSize);
+      if (hit[cell]) continue;
+      hit[cell] = 1;
+      points++;
+      if (points === 1) {
+        gapCounts[coreSize] = 1;
+        continue;
+      }
+      // Split the gap the new cell falls into
+      let before = 1;
+      for (let c = cell === 0 ? coreSize - 1 : cell - 1; !hit[c]; c = c === 0 ? coreSize - 1 : c - 1) before++;
+      let after = 1;
+      for (let c = cell === coreSize - 1 ? 0 : cell + 1; !hit[c]; c = c === coreSize - 1 ? 0 : c + 1) after++;
+      gapCounts[before + after]--;
+      gapCounts[before]++;
+      gapCounts[after]++;
+    }
+    while (gapCounts[largest] === 0) largest--;
+    gaps?.push(largest);
+    // Early bombs count most: a fight is usually decided long before the core is full
+    total += Math.ceil(coreSize / points) / largest / k;
+    weights += 1 / k;
+  }
+  return weights > 0 ? total / weights : 0;
+}
@@ -0,0 +1,10 @@
+/** Resolve on a later turn of the event loop so other work can run. */
+export function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => {
+    if (typeof setImmediate === 'function') {
+      setImmediate(resolve);
+    } else {
+      setTimeout(resolve, 0);
+    }
+  });
+}
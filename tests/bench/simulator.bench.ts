@@ -0,0 +1,29 @@
+import { bench, describe } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Assembler } from '../../src/assembler/index';
+import { Simulator } from '../../src/simulator/index';
+import { type WarriorData } from '../../src/types';
+
+function loadWarrior(filename: string): WarriorData {
+  const source = readFileSync(join(__dirname, '../integration/warriors', filename), 'utf-8');
+  return new Assembler({ coreSize: 8000, maxLength: 200 }).assemble(source).warrior!;
+}
+
+const warriors = [loadWarrior('sunset.red'), loadWarrior('excalibur.red')];
+
+// Run with `npm run bench`; compare against the previous release before merging simulator changes
+describe('Simulator.run', () => {
+  bench('sunset vs excalibur, 20 rounds', () => {
+    const sim = new Simulator({ seed: 42 });
+    sim.loadWarriors(warriors);
+    sim.run(20);
+  }, { iterations: 5 });
+
+  bench('sunset vs excalibur, 20 rounds with an undo journal', () => {
+    const sim = new Simulator({ seed: 42 });
+    sim.loadWarriors(warriors);
+    sim.setUndoDepth(100);
+    sim.run(20);
+  }, { iterations: 5 });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { Assembler } from '../../src/assembler/index';
+
+const bundle = [
+  'ignored preamble',
+  ';redcode-94',
+  ';name Imp',
+  ';assert 1',
+  'MOV.I $0, $1',
+  '',
+  ';redcode',
+  ';name Dwarf',
+  ';assert 1',
+  'ADD.AB #4, $3',
+  'MOV.I $2, @2',
+  'JMP $-2',
+  'DAT #0',
+  ';redcode',
+  ';name Broken',
+  ';assert 1',
+  '  mov.q 0, 1',
+].join('\n');
+
+describe('Assembler.assembleAll', () => {
+  it('returns one result per ;redcode section', () => {
+    const results = new Assembler().assembleAll(bundle);
+    expect(results.map(r => r.warrior?.name ?? null)).toEqual(['Imp', 'Dwarf', null]);
+    expect(results[1].warrior!.instructions.length).toBe(4);
+    expect(results[2].success).toBe(false);
+  });
+
+  it('reports line numbers relative to the whole file', () => {
+    const results = new Assembler().assembleAll(bundle);
+    expect(results[0].sourceMap[0].line).toBe(5);
+    expect(results[1].sourceMap.map(s => s.line)).toEqual([10, 11, 12, 13]);
+    expect(results[2].messages.find(m => m.type === 'ERROR')).toMatchObject({ code: 'MODERR', line: 17, column: 7 });
+  });
+
+  it('treats a file without ;redcode as a single warrior', () => {
+    const results = new Assembler().assembleAll(';name Solo\nJMP 0');
+    expect(results).toHaveLength(1);
+    expect(results[0].warrior!.name).toBe('Solo');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { Simulator } from '../../src/simulator/index';
+import { Assembler } from '../../src/assembler/index';
+import { buildBattleResult } from '../../src/simulator/results';
+import { type WarriorData } from '../../src/types';
+
+function makeWarrior(source: string, name: string): WarriorData {
+  const asm = new Assembler({ coreSize: 800, maxLength: 100, maxProcesses: 80 });
+  const result = asm.assemble(`;name ${name}\n${source}`);
+  if (!result.success || !result.warrior) throw new Error(`Assembly failed: ${result.messages.map(m => m.text).join(', ')}`);
+  return result.warrior;
+}
+
+const dwarf = () => makeWarrior('ADD.AB #4, $3\nMOV.I $2, @2\nJMP $-2, $0\nDAT.F #0, #0', 'Dwarf');
+const imp = () => makeWarrior('MOV.I $0, $1', 'Imp');
+const sitter = () => makeWarrior('JMP $0', 'Sitter');
+const suicide = () => makeWarrior('DAT #0, #0', 'Suicide');
+
+function makeSim(warriors: WarriorData[]): Simulator {
+  const sim = new Simulator({ coreSize: 800, maxCycles: 2000, maxProcesses: 80, minSeparation: 50, seed: 11 });
+  sim.loadWarriors(warriors);
+  return sim;
+}
+
+describe('Simulator.runBattle', () => {
+  it('summarizes a 1v1 battle', () => {
+    const sim = makeSim([dwarf(), sitter()]);
+    const battle = sim.runBattle(10);
+    expect(battle.rounds).toBe(10);
+    expect(battle.roundResults.length).toBe(10);
+    expect(battle.roundCycles.length).toBe(10);
+
+    const [d, s] = battle.warriors;
+    expect(d.name).toBe('Dwarf');
+    expect(d.wins + d.ties + d.losses).toBe(10);
+    expect(s.wins + s.ties + s.losses).toBe(10);
+    expect(d.wins).toBe(s.losses);
+    expect(d.ties).toBe(s.ties);
+    expect(d.score).toBe(3 * d.wins + d.ties);
+    expect(d.wins).toBe(battle.roundResults.filter(r => r.winnerId === 0).length);
+    expect(d.survivedWith).toEqual([d.wins, d.ties]);
+    expect(s.diedWith).toEqual([0, s.losses]);
+  });
+
+  it('reports round cycles and the first round lost', () => {
+    const sim = makeSim([suicide(), sitter()]);
+    const battle = sim.runBattle(3);
+    expect(battle.roundCycles).toEqual([1, 1, 1]);
+    expect(battle.warriors[0].firstLossRound).toBe(1);
+    expect(battle.warriors[1].firstLossRound).toBeNull();
+    expect(battle.warriors[1].wins).toBe(3);
+  });
+
+  it('counts full-length ties as maxCycles', () => {
+    const sim = makeSim([sitter(), sitter()]);
+    const battle = sim.runBattle(2);
+    expect(battle.roundCycles).toEqual([2000, 2000]);
+    expect(battle.warriors.map(w => w.ties)).toEqual([2, 2]);
+    expect(battle.warriors.map(w => w.score)).toEqual([2, 2]);
+  });
+
+  it('breaks down multi-warrior melee by survivor count', () => {
+    const sim = makeSim([suicide(), sitter(), sitter()]);
+    const battle = sim.runBattle(2);
+    const [dead, a, b] = battle.warriors;
+    expect(dead.losses).toBe(2);
+    expect(dead.diedWith).toEqual([0, 0, 2]);
+    expect(a.survivedWith).toEqual([0, 2, 0]);
+    expect(b.ties).toBe(2);
+    expect(a.score).toBe(2);
+  });
+
+  it('only counts rounds from the current call', () => {
+    const sim = makeSim([suicide(), sitter()]);
+    sim.runBattle(2);
+    const second = sim.runBattle(1);
+    expect(second.warriors[1].wins).toBe(1);
+    expect(second.warriors[0].firstLossRound).toBe(1);
+  });
+});
+
+describe('buildBattleResult', () => {
+  it('decodes pMARS score arrays', () => {
+    const result = buildBattleResult({
+      warriors: [{ id: 0, name: 'A', author: 'x' }, { id: 1, name: 'B', author: 'y' }],
+      scores: [[3, 1, 2], [2, 1, 3]],
+      roundResults: [],
+      roundCycles: [],
+      firstLossRounds: [2, 1],
+    });
+    expect(result.warriors[0]).toMatchObject({ wins: 3, ties: 1, losses: 2, score: 10, firstLossRound: 2 });
+    expect(result.warriors[1]).toMatchObject({ wins: 2, ties: 1, losses: 3, score: 7 });
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PassThrough } from 'node:stream';
+import { Benchmark, formatBenchmarkTable, benchmarkToJSON, benchmarkToCSV, type BenchmarkResult } from '../../src/benchmark/index';
+import { loadWarriorFile, loadBenchmarkOpponents } from '../../src/benchmark/files';
+import { parseBenchmarkArgs, runBenchmarkCli } from '../../src/benchmark/cli';
+import { Assembler } from '../../src/assembler/index';
+import { Simulator } from '../../src/simulator/index';
+import { type WarriorData } from '../../src/types';
+
+const OPTIONS = { coreSize: 800, maxCycles: 2000, maxProcesses: 80, maxLength: 50, minSeparation: 50, seed: 7 };
+const IMP = ';name Imp\nmov.i 0, 1';
+const DWARF = ';name Dwarf\nadd #4, 3\nmov 2, @2\njmp -2\ndat #0, #0';
+const SUICIDE = 'dat #0, #0';
+
+function makeWarrior(source: string): WarriorData {
+  const result = new Assembler(OPTIONS).assemble(source);
+  if (!result.warrior) throw new Error(result.messages.map(m => m.text).join(', '));
+  return result.warrior;
+}
+
+describe('Benchmark', () => {
+  it('scores each opponent and averages the scores', () => {
+    const result = new Benchmark(makeWarrior(DWARF), OPTIONS).run([
+      { name: 'Suicide', warrior: makeWarrior(SUICIDE) },
+      { name: 'Imp', warrior: makeWarrior(IMP), file: 'imp.red' },
+    ], 10);
+    expect(result).toMatchObject({ warrior: 'Dwarf', rounds: 10 });
+    expect(result.entries[0]).toEqual({ opponent: 'Suicide', rounds: 10, wins: 10, losses: 0, ties: 0, score: 300 });
+    const imp = result.entries[1];
+    expect(imp).toMatchObject({ opponent: 'Imp', file: 'imp.red', rounds: 10 });
+    expect(imp.wins + imp.losses + imp.ties).toBe(10);
+    expect(imp.score).toBe((3 * imp.wins + imp.ties) * 10);
+    expect(result.wins).toBe(10 + imp.wins);
+    expect(result.average).toBe((300 + imp.score) / 2);
+  });
+
+  it('matches a Simulator battle with the same options', () => {
+    const dwarf = makeWarrior(DWARF);
+    const imp = makeWarrior(IMP);
+    const { entries } = new Benchmark(dwarf, { ...OPTIONS, rounds: 6 }).run([{ name: 'Imp', warrior: imp }]);
+    const sim = new Simulator({ ...OPTIONS, rounds: 6 });
+    sim.loadWarriors([dwarf, imp]);
+    const { wins, losses, ties } = sim.runBattle().warriors[0];
+    expect(entries[0]).toMatchObject({ rounds: 6, wins, losses, ties });
+  });
+
+  it('handles an empty opponent list', () => {
+    expect(new Benchmark(makeWarrior(IMP), OPTIONS).run([], 5)).toMatchObject({ entries: [], wins: 0, average: 0 });
+  });
+});
+
+describe('benchmark output', () => {
+  const result: BenchmarkResult = {
+    warrior: 'Dwarf',
+    rounds: 10,
+    entries: [
+      { opponent: 'Imp, the first', file: 'a.red', rounds: 10, wins: 2, losses: 1, ties: 7, score: 130 },
+      { opponent: 'Suicide', rounds: 10, wins: 10, losses: 0, ties: 0, score: 300 },
+    ],
+    wins: 12,
+    losses: 1,
+    ties: 7,
+    average: 215,
+  };
+
+  it('formats a table with a total row', () => {
+    expect(formatBenchmarkTable(result)).toBe([
+      'Dwarf: 10 rounds per opponent',
+      '',
+      'Opponent         W  L  T  Score',
+      'Imp, the first   2  1  7  130.0',
+      'Suicide         10  0  0  300.0',
+      '--------------  --  -  -  -----',
+      'Total           12  1  7  215.0',
+      '',
+    ].join('\n'));
+  });
+
+  it('exports JSON', () => {
+    expect(JSON.parse(benchmarkToJSON(result))).toEqual(result);
+  });
+
+  it('exports CSV with quoting and a total row', () => {
+    expect(benchmarkToCSV(result)).toBe([
+      'opponent,file,rounds,wins,losses,ties,score',
+      '"Imp, the first",a.red,10,2,1,7,130',
+      'Suicide,,10,10,0,0,300',
+      'Total,,20,12,1,7,215',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('benchmark files and CLI', () => {
+  let dir: string;
+  const io = () => {
+    const stdout = new PassThrough();
+    const stderr = new PassThrough();
+    const text = (stream: PassThrough): string => (stream.read() ?? '').toString();
+    return { stdout, stderr, out: () => text(stdout), err: () => text(stderr) };
+  };
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'pmars-bench-'));
+    mkdirSync(join(dir, 'bench'));
+    writeFileSync(join(dir, 'dwarf.red'), ';include "step.inc"\n;name Dwarf\nadd #STEP, 3\nmov 2, @2\njmp -2\ndat #0, #0');
+    writeFileSync(join(dir, 'step.inc'), 'STEP equ 4');
+    writeFileSync(join(dir, 'bench', 'b-imp.red'), IMP);
+    writeFileSync(join(dir, 'bench', 'a-nameless.red'), SUICIDE);
+    writeFileSync(join(dir, 'bench', 'notes.txt'), 'not a warrior');
+    writeFileSync(join(dir, 'broken.red'), 'mov.q 0, 1');
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads warriors with includes relative to the file', () => {
+    expect(loadWarriorFile(join(dir, 'dwarf.red'), OPTIONS).instructions[0].aValue).toBe(4);
+  });
+
+  it('reports assembly errors with the file and line', () => {
+    expect(() => loadWarriorFile(join(dir, 'broken.red'), OPTIONS)).toThrow(`Cannot assemble ${join(dir, 'broken.red')}: line 1: Unknown modifier: Q`);
+  });
+
+  it('loads the .red files of a directory in name order', () => {
+    const opponents = loadBenchmarkOpponents([join(dir, 'bench'), join(dir, 'dwarf.red')], OPTIONS);
+    expect(opponents.map(o => [o.name, o.file])).toEqual([
+      ['a-nameless', join(dir, 'bench', 'a-nameless.red')],
+      ['Imp', join(dir, 'bench', 'b-imp.red')],
+      ['Dwarf', join(dir, 'dwarf.red')],
+    ]);
+  });
+
+  it('parses pmars-style flags', () => {
+    expect(parseBenchmarkArgs(['-r', '50', '-s', '800', '-c', '2000', '-f', '--seed', '3', '--csv', '-', 'w.red', 'bench', 'x.red'])).toEqual({
+      warrior: 'w.red',
+      opponents: ['bench', 'x.red'],
+      options: { coreSize: 800, maxCycles: 2000, fixedSeries: true, seed: 3 },
+      rounds: 50,
+      json: undefined,
+      csv: '-',
+    });
+    expect(() => parseBenchmarkArgs(['-r', 'many', 'w.red', 'o.red'])).toThrow('-r needs an integer, got "many"');
+    expect(() => parseBenchmarkArgs(['-r', '0', 'w.red', 'o.red'])).toThrow('-r needs a positive number of rounds, got 0');
+    expect(() => parseBenchmarkArgs(['-r', '-5', 'w.red', 'o.red'])).toThrow('-r needs a positive number of rounds, got -5');
+    expect(() => parseBenchmarkArgs(['-x', 'w.red', 'o.red'])).toThrow('Unknown option -x');
+    expect(() => parseBenchmarkArgs(['w.red'])).toThrow('A warrior and at least one opponent are required');
+  });
+
+  it('prints a table and writes JSON and CSV files', () => {
+    const streams = io();
+    const json = join(dir, 'out.json');
+    const csv = join(dir, 'out.csv');
+    const args = ['-r', '4', '-s', '800', '-c', '2000', '-p', '80', '-l', '50', '-d', '50', '--seed', '7',
+      '--json', json, '--csv', csv, join(dir, 'dwarf.red'), join(dir, 'bench')];
+    expect(runBenchmarkCli(args, streams)).toBe(0);
+    expect(streams.out()).toContain('Dwarf: 4 rounds per opponent');
+    const result = JSON.parse(readFileSync(json, 'utf-8')) as BenchmarkResult;
+    expect(result.entries.map(e => e.opponent)).toEqual(['a-nameless', 'Imp']);
+    expect(result.entries[0]).toMatchObject({ wins: 4, score: 300 });
+    expect(readFileSync(csv, 'utf-8').split('\n')[1]).toBe(`a-nameless,${join(dir, 'bench', 'a-nameless.red')},4,4,0,0,300`);
+  });
+
+  it('writes CSV to stdout instead of the table', () => {
+    const streams = io();
+    expect(runBenchmarkCli(['-r', '2', '-s', '800', '--csv', '-', join(dir, 'dwarf.red'), join(dir, 'bench', 'a-nameless.red')], streams)).toBe(0);
+    expect(streams.out()).toMatch(/^opponent,file,rounds,wins,losses,ties,score\n/);
+  });
+
+  it('reports errors on stderr with exit code 1', () => {
+    const streams = io();
+    expect(runBenchmarkCli([join(dir, 'dwarf.red'), join(dir, 'broken.red')], streams)).toBe(1);
+    expect(streams.err()).toContain('pmars-ts-bench: Cannot assemble');
+    expect(runBenchmarkCli(['-r', '0', join(dir, 'dwarf.red'), join(dir, 'bench')], streams)).toBe(1);
+    expect(streams.err()).toContain('pmars-ts-bench: -r needs a positive number of rounds, got 0');
+    expect(streams.out()).toBe('');
+    expect(runBenchmarkCli(['--help'], streams)).toBe(0);
+    expect(streams.out()).toContain('Usage: pmars-ts-bench');
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import { Simulator } from '../../src/simulator/index';
+import { Assembler } from '../../src/assembler/index';
+import { type WarriorData, Opcode, Modifier } from '../../src/types';
+
+function makeWarrior(source: string): WarriorData {
+  const asm = new Assembler({ coreSize: 800, maxLength: 100, maxProcesses: 80 });
+  const result = asm.assemble(source);
+  if (!result.success || !result.warrior) throw new Error(`Assembly failed: ${result.messages.map(m => m.text).join(', ')}`);
+  return result.warrior;
+}
+
+const dwarf = () => makeWarrior('ADD.AB #4, $3\nMOV.I $2, @2\nJMP $-2, $0\nDAT.F #0, #0');
+const idle = () => makeWarrior('JMP $0');
+
+function makeSim(warriors: WarriorData[], maxCycles = 1000): Simulator {
+  const sim = new Simulator({ coreSize: 800, maxCycles, maxProcesses: 80, minSeparation: 50, seed: 7 });
+  sim.loadWarriors(warriors);
+  sim.setupRound();
+  return sim;
+}
+
+describe('Simulator breakpoints', () => {
+  it('breaks on execute at a warrior-relative address', () => {
+    const sim = makeSim([dwarf(), idle()]);
+    const id = sim.addBreakpoint({ type: 'execute', address: 2, relativeTo: 0 });
+    const { hit, roundResult } = sim.runUntilBreak();
+    expect(roundResult).toBeNull();
+    expect(hit).toMatchObject({ id, warriorId: 0, pc: sim.getWarriors()[0].position + 2, cycle: 2 });
+    // Resuming continues to the next loop iteration
+    expect(sim.runUntilBreak().hit?.cycle).toBe(5);
+  });
+
+  it('breaks on execute at an absolute address', () => {
+    const sim = makeSim([dwarf(), idle()]);
+    const pos = sim.getWarriors()[1].position;
+    sim.addBreakpoint({ type: 'execute', address: pos });
+    const { hit } = sim.runUntilBreak();
+    expect(hit?.warriorId).toBe(1);
+    expect(hit?.cycle).toBe(0);
+  });
+
+  it('breaks on writes to an address range, including increments', () => {
+    const sim = makeSim([makeWarrior('JMP $0, >5'), idle()]);
+    const pos = sim.getWarriors()[0].position;
+    sim.addBreakpoint({ type: 'write', start: pos + 4, end: pos + 6 });
+    const { hit } = sim.runUntilBreak();
+    expect(hit?.address).toBe(pos + 5);
+    expect(sim.getCore().get(pos + 5).bValue).toBe(1);
+  });
+
+  it('breaks on the dwarf bombing a distant cell', () => {
+    const sim = makeSim([dwarf(), idle()]);
+    const pos = sim.getWarriors()[0].position;
+    sim.addBreakpoint({ type: 'write', start: 11, end: 11, relativeTo: 0 });
+    const { hit } = sim.runUntilBreak();
+    expect(hit?.address).toBe((pos + 11) % 800);
+    expect(hit?.pc).toBe(pos + 1);
+  });
+
+  it('leaves core access events as they are', () => {
+    for (const [source, reads] of [['SEQ $5, $6', []], ['MOV $0, }5', [0]], ['MOV $0, @5', [5, 0]]] as const) {
+      const sim = makeSim([makeWarrior(source), idle()]);
+      const pos = sim.getWarriors()[0].position;
+      const events: { address: number; accessType: string }[] = [];
+      sim.setEventListener({ onCoreAccess: evts => { if (evts[0].warriorId === 0) events.push(...evts); } });
+      sim.addBreakpoint({ type: 'read', address: 5, relativeTo: 0 });
+      expect(sim.runUntilBreak().hit).not.toBeNull();
+      expect(events.filter(e => e.accessType === 'READ').map(e => e.address - pos)).toEqual(reads);
+    }
+  });
+
+  it('does not break on writes when DIV or MOD divides by zero', () => {
+    for (const source of ['DIV.B $2, $1', 'MOD.AB $2, $1', 'DIV.F $2, $1', 'MOD.X $2, $1']) {
+      const sim = makeSim([makeWarrior(source), idle()], 50);
+      sim.addBreakpoint({ type: 'write', start: 1, end: 1, relativeTo: 0 });
+      const { hit, roundResult } = sim.runUntilBreak();
+      expect(hit).toBeNull();
+      expect(roundResult).toMatchObject({ winnerId: 1 });
+    }
+  });
+
+  it('breaks on reads of a cell', () => {
+    const sim = makeSim([dwarf(), idle()]);
+    const pos = sim.getWarriors()[0].position;
+    sim.addBreakpoint({ type: 'read', address: 3, relativeTo: 0 });
+    const { hit } = sim.runUntilBreak();
+    expect(hit?.address).toBe(pos + 3);
+  });
+
+  it.each([
+    ['SEQ', 'SEQ $5, $6', [5, 6]],
+    ['SNE', 'SNE $5, $6', [5, 6]],
+    ['CMP', 'CMP $5, $6', [5, 6]],
+    ['SLT', 'SLT $5, $6', [5, 6]],
+    ['ADD', 'ADD $5, $6', [5, 6]],
+    ['JMZ', 'JMZ $0, $6', [6]],
+    ['JMN', 'JMN $0, $6', [6]],
+    ['DJN', 'DJN $0, $6', [6]],
+  ])('breaks on the operand cells %s reads', (_opcode, source, offsets) => {
+    for (const offset of offsets) {
+      const sim = makeSim([makeWarrior(source), idle()]);
+      sim.addBreakpoint({ type: 'read', address: offset, relativeTo: 0 });
+      const { hit } = sim.runUntilBreak();
+      expect(hit).toMatchObject({ warriorId: 0, cycle: 0, address: sim.getWarriors()[0].position + offset });
+    }
+  });
+
+  it('breaks on pointer reads in increment modes', () => {
+    for (const source of ['JMP $0, }5', 'JMP $0, >5', 'MOV $0, <5', 'MOV {5, $1']) {
+      const sim = makeSim([makeWarrior(source), idle()]);
+      sim.addBreakpoint({ type: 'read', address: 5, relativeTo: 0 });
+      expect(sim.runUntilBreak().hit).toMatchObject({ cycle: 0, address: sim.getWarriors()[0].position + 5 });
+    }
+  });
+
+  it('breaks when a specific opcode executes', () => {
+    const sim = makeSim([dwarf(), idle()]);
+    sim.addBreakpoint({ type: 'opcode', opcode: Opcode.MOV, modifier: Modifier.I });
+    const { hit } = sim.runUntilBreak();
+    expect(hit?.pc).toBe(sim.getWarriors()[0].position + 1);
+    expect(hit?.address).toBeNull();
+  });
+
+  it('filters by executing warrior', () => {
+    const sim = makeSim([idle(), idle()]);
+    sim.addBreakpoint({ type: 'opcode', opcode: Opcode.JMP, warriorId: 1 });
+    expect(sim.runUntilBreak().hit?.warriorId).toBe(1);
+  });
+
+  it('breaks when a task count crosses a threshold', () => {
+    const sim = makeSim([makeWarrior('SPL $0\nJMP $-1'), idle()]);
+    sim.addBreakpoint({ type: 'taskCount', warriorId: 0, threshold: 10, direction: 'above' });
+    const { hit } = sim.runUntilBreak();
+    expect(hit).not.toBeNull();
+    expect(sim.getWarriors()[0].tasks).toBe(11);
+  });
+
+  it('breaks when a task count falls below a threshold', () => {
+    const sim = makeSim([makeWarrior('DAT #0'), idle()]);
+    sim.addBreakpoint({ type: 'taskCount', warriorId: 0, threshold: 1, direction: 'below' });
+    const { hit } = sim.runUntilBreak();
+    expect(hit?.warriorId).toBe(0);
+    expect(sim.getWarriors()[0].alive).toBe(false);
+  });
+
+  it('returns the round result when no breakpoint fires', () => {
+    const sim = makeSim([idle(), idle()], 50);
+    sim.addBreakpoint({ type: 'opcode', opcode: Opcode.DAT });
+    const { hit, roundResult } = sim.runUntilBreak();
+    expect(hit).toBeNull();
+    expect(roundResult).toMatchObject({ winnerId: null, outcome: 'TIE' });
+  });
+
+  it('does not score a finished round again', () => {
+    const sim = makeSim([makeWarrior('DAT #0'), idle()]);
+    const first = sim.runUntilBreak();
+    expect(first.roundResult).toMatchObject({ winnerId: 1, outcome: 'WIN' });
+    expect(sim.runUntilBreak()).toEqual(first);
+    expect(sim.runUntilBreak()).toEqual(first);
+    expect(sim.getWarriors()[1].score[0]).toBe(1);
+  });
+
+  it('removes and clears breakpoints', () => {
+    const sim = makeSim([dwarf(), idle()], 50);
+    const id = sim.addBreakpoint({ type: 'opcode', opcode: Opcode.ADD });
+    expect(sim.removeBreakpoint(id)).toBe(true);
+    expect(sim.removeBreakpoint(id)).toBe(false);
+    sim.addBreakpoint({ type: 'opcode', opcode: Opcode.ADD });
+    sim.clearBreakpoints();
+    expect(sim.runUntilBreak().hit).toBeNull();
+  });
+
+  it('rejects inverted write ranges', () => {
+    const sim = makeSim([idle(), idle()]);
+    expect(() => sim.addBreakpoint({ type: 'write', start: 10, end: 5 })).toThrow(/before start/);
+  });
+
+  it('does not change simulation results', () => {
+    const plain = makeSim([dwarf(), makeWarrior('MOV $0, $1')]);
+    let expected = null;
+    while (expected === null) expected = plain.step();
+
+    const watched = makeSim([dwarf(), makeWarrior('MOV $0, $1')]);
+    watched.addBreakpoint({ type: 'write', start: 0, end: 799 });
+    let result = watched.runUntilBreak();
+    while (result.roundResult === null) result = watched.runUntilBreak();
+    expect(result.roundResult).toEqual(expected);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { Assembler } from '../../src/assembler/index';
+import { classifyWarrior } from '../../src/analysis/classify';
+import { type WarriorData } from '../../src/types';
+
+function makeWarrior(source: string): WarriorData {
+  const result = new Assembler({ coreSize: 8000 }).assemble(';redcode-94\n' + source);
+  if (!result.success || !result.warrior) throw new Error(`Assembly failed: ${result.messages.map(m => m.text).join(', ')}`);
+  return result.warrior;
+}
+
+const DWARF = 'ADD #4, 3\nMOV 2, @2\nJMP -2\nDAT #0, #0';
+
+describe('classifyWarrior', () => {
+  it('classifies an imp', () => {
+    const result = classifyWarrior(makeWarrior('MOV.I $0, $1'));
+    expect(result.strategy).toBe('imp');
+    expect(result.features.static.impSteps).toEqual([1]);
+    expect(result.features.dynamic.impExecution).toBe(1);
+    expect(result.evidence.map(e => e.strategy)).toEqual(['imp', 'imp']);
+  });
+
+  it('recognizes an imp ring and its launcher', () => {
+    const result = classifyWarrior(makeWarrior(`
+start spl c1
+      spl c2
+      jmp imp+2667
+c2    jmp imp+5334
+c1    jmp imp
+imp   mov.i #0, 2667
+      end start`));
+    expect(result.strategy).toBe('imp');
+    expect(result.confidence).toBeGreaterThanOrEqual(0.9);
+    expect(result.features.static.impSteps).toEqual([2667]);
+    expect(result.features.dynamic.finalProcesses).toBe(3);
+    expect(result.evidence[0].text).toContain('imp-ring');
+  });
+
+  it('classifies a dwarf as a stone from its bombing stride', () => {
+    const result = classifyWarrior(makeWarrior(DWARF));
+    expect(result.strategy).toBe('stone');
+    expect(result.confidence).toBe(1);
+    expect(result.features.static.stepConstants).toEqual([4]);
+    expect(result.features.dynamic).toMatchObject({ survived: true, dominantStride: 4, strideRegularity: 1, contiguity: 0 });
+    expect(result.evidence).toContainEqual({ strategy: 'stone', weight: 0.5, text: '667 cells bombed 4 apart (100% of writes)' });
+  });
+
+  it('classifies a scanner', () => {
+    const result = classifyWarrior(makeWarrior(`
+scan add #15, ptr
+ptr  sne.i 15, 22
+     jmp scan
+     mov bomb, @ptr
+     jmp scan
+bomb spl 0, 0`));
+    expect(result.strategy).toBe('scanner');
+    expect(result.features.static.compares).toBe(1);
+    expect(result.features.dynamic.testExecution).toBeCloseTo(1 / 3, 2);
+  });
+
+  it('classifies a core clear', () => {
+    const result = classifyWarrior(makeWarrior(`
+gate dat 0, 10
+clr  mov bomb, >gate
+     djn.f clr, >gate
+bomb dat 0, 0
+     end clr`));
+    expect(result.strategy).toBe('clear');
+    expect(result.features.static.clearMoves).toBe(1);
+    expect(result.features.dynamic.contiguity).toBe(1);
+  });
+
+  it('classifies a scanner that switches to a clear as a one-shot', () => {
+    const result = classifyWarrior(makeWarrior(`
+ptr  dat 0, 100
+scan add #10, ptr
+     jmz.f scan, @ptr
+clr  mov bomb, >ptr
+     djn.f clr, >ptr
+bomb dat 0, 0
+     end scan`));
+    expect(result.strategy).toBe('oneshot');
+    expect(result.scores.oneshot).toBeGreaterThan(result.scores.scanner);
+  });
+
+  it('classifies a self-copying warrior as paper', () => {
+    const result = classifyWarrior(makeWarrior(`
+     spl 1
+     spl 1
+     spl 1
+silk spl @0, }400
+     mov.i }-1, >-1
+     mov.i bomb, }111
+     mov.i {silk, <silk
+bomb dat >2667, >5334`));
+    expect(result.strategy).toBe('paper');
+    expect(result.features.dynamic.copiedFraction).toBeGreaterThanOrEqual(0.5);
+    expect(result.features.dynamic.maxProcesses).toBeGreaterThan(8);
+  });
+
+  it('classifies a SPL 0 copy loop whose copies run as paper', () => {
+    const result = classifyWarrior(makeWarrior(`
+start spl 0
+      mov.i }ptr, >ptr
+      jmp start+400
+ptr   dat start, start+400`));
+    expect(result.strategy).toBe('paper');
+    expect(result.confidence).toBe(0.8);
+    expect(result.features.dynamic.copiesRun).toBe(3);
+  });
+
+  it('classifies P-space users as p-spacers whatever else they do', () => {
+    const result = classifyWarrior(makeWarrior(`res ldp.ab #0, #0\nadd #1, res\nstp.ab res, #0\n${DWARF}`));
+    expect(result.strategy).toBe('pspacer');
+    expect(result.scores.stone).toBe(1);
+    expect(result.features.static.pSpaceOps).toBe(2);
+  });
+
+  it('reports two unrelated strong strategies as a hybrid', () => {
+    const result = classifyWarrior(makeWarrior(`spl imp\n${DWARF}\nimp mov.i $0, $1`));
+    expect(result.strategy).toBe('hybrid');
+    expect(result.components).toEqual(['stone', 'imp']);
+    expect(result.confidence).toBe(0.9);
+  });
+
+  it('returns unknown when nothing scores', () => {
+    const result = classifyWarrior(makeWarrior('DAT #0, #0'));
+    expect(result.strategy).toBe('unknown');
+    expect(result.evidence).toEqual([]);
+    expect(result.features.dynamic).toMatchObject({ survived: false, cycles: 1, finalProcesses: 0 });
+  });
+
+  it('limits the solo run to the given number of cycles', () => {
+    const result = classifyWarrior(makeWarrior(DWARF), { cycles: 30 });
+    expect(result.features.dynamic.cycles).toBe(30);
+    expect(result.features.dynamic.cellsWritten).toBe(10);
+  });
+
+  // Each fixture's ;strategy line, e.g. "qBob -> paper" or "Completely reworked Agony II" (a scan, wipe and clear)
+  it.each([
+    ['sunset.red', 'pspacer', []],
+    ['artofcorewar.red', 'paper', []],
+    ['excalibur.red', 'oneshot', []],
+    ['sonofvain.red', 'hybrid', ['imp', 'stone']],
+    ['forgottenloreii.red', 'hybrid', ['oneshot', 'stone']],
+  ])('classifies %s by its declared strategy', (file, strategy, components) => {
+    const source = readFileSync(join(__dirname, '../integration/warriors', file), 'utf-8');
+    const [result] = new Assembler({ coreSize: 8000 }).assembleAll(source);
+    const classification = classifyWarrior(result.warrior!);
+    expect(classification.strategy).toBe(strategy);
+    expect(classification.components).toEqual(components);
+  });
+});
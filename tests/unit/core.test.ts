@@ -78,4 +78,44 @@ describe('Core', () => {
     expect(dst.aValue).toBe(100);
     expect(dst.bValue).toBe(200);
   });
+
+  it('get returns a live view that writes through to the buffers', () => {
+    const core = new Core(100);
+    const cell = core.get(105);
+    cell.aValue = 7;
+    cell.bMode = 2;
+    expect(core.aValues[5]).toBe(7);
+    expect(core.bModes[5]).toBe(2);
+    core.bValues[5] = 9;
+    expect(cell.bValue).toBe(9);
+    expect(core.get(5)).toBe(cell);
+  });
+
+  it('get spreads and serializes as the cell contents', () => {
+    const core = new Core(100);
+    core.set(3, { opcode: 0x42, aMode: 1, bMode: 2, aValue: 5, bValue: 6 });
+    const cell = core.get(3);
+    expect({ ...cell }).toEqual({ opcode: 0x42, aMode: 1, bMode: 2, aValue: 5, bValue: 6 });
+    expect(JSON.parse(JSON.stringify(cell))).toEqual(core.read(3));
+    expect(Object.keys(cell)).toEqual(['opcode', 'aMode', 'bMode', 'aValue', 'bValue']);
+    expect(cell.address).toBe(3);
+  });
+
+  it('read returns a detached copy', () => {
+    const core = new Core(100);
+    core.set(3, { opcode: 0x42, aMode: 1, bMode: 2, aValue: 5, bValue: 6 });
+    const copy = core.read(3);
+    expect(copy).toEqual({ opcode: 0x42, aMode: 1, bMode: 2, aValue: 5, bValue: 6 });
+    core.aValues[3] = 99;
+    expect(copy.aValue).toBe(5);
+  });
+
+  it('clear refills the buffers in place', () => {
+    const core = new Core(10);
+    const buffer = core.aValues;
+    core.set(4, { opcode: 0x42, aMode: 0, bMode: 0, aValue: 5, bValue: 6 });
+    core.clear();
+    expect(core.aValues).toBe(buffer);
+    expect(core.read(4)).toEqual({ ...INITIAL_INSTRUCTION });
+  });
 });
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { decompileWarrior } from '../../src/assembler/decompile';
+import { Assembler } from '../../src/assembler/index';
+import { parseLoadFile } from '../../src/assembler/loadfile';
+
+const warriorsDir = join(__dirname, '../integration/warriors');
+const warriors = readdirSync(warriorsDir).filter(f => f.endsWith('.red'));
+
+describe('decompileWarrior', () => {
+  it('labels jump targets, pointers and the entry point', () => {
+    const { warrior } = new Assembler().assemble([
+      ';name Dwarf',
+      ';author A. K. Dewdney',
+      ';strategy bombs every fourth cell',
+      ';assert CORESIZE == 8000',
+      'bomb  dat #0, #0',
+      'start add #4, bomb',
+      '      mov bomb, @bomb',
+      '      jmp start',
+      '      end start',
+    ].join('\n'));
+    expect(decompileWarrior(warrior!)).toBe([
+      ';redcode-94',
+      ';name Dwarf',
+      ';author A. K. Dewdney',
+      ';strategy bombs every fourth cell',
+      ';assert CORESIZE == 8000',
+      '',
+      '      ORG    start',
+      'loc0  DAT.F  #0, #0',
+      'start ADD.AB #4, $loc0',
+      '      MOV.I  $loc0, @loc0',
+      '      JMP.B  $start, $0',
+    ].join('\n') + '\n');
+  });
+
+  it('keeps out-of-body references numeric and writes PIN', () => {
+    const { warrior } = parseLoadFile(';name Scan\nPIN 7\nSPL.B $-100, <3000\nJMP.B $-1, $0');
+    const source = decompileWarrior(warrior!);
+    expect(source).toContain('start SPL.B  $-100, <3000');
+    expect(source).toContain('      JMP.B  $start, $0');
+    expect(source).toContain('      PIN    7');
+  });
+
+  it('uses the core size the warrior was assembled for', () => {
+    const { warrior } = new Assembler({ coreSize: 800 }).assemble(';assert 1\nmov 0, 1\njmp -1');
+    const source = decompileWarrior(warrior!, { coreSize: 800 });
+    expect(source).toContain(';assert CORESIZE == 800');
+    expect(new Assembler({ coreSize: 800 }).assemble(source).warrior).toEqual(warrior);
+  });
+
+  it.each(warriors)('reassembles %s to identical WarriorData', file => {
+    const asm = new Assembler({ coreSize: 8000 });
+    const { warrior } = asm.assemble(readFileSync(join(warriorsDir, file), 'utf-8'));
+    const result = asm.assemble(decompileWarrior(warrior!));
+    expect(result.messages.filter(m => m.type === 'ERROR')).toEqual([]);
+    // Warnings about the original source (undefined symbols, ...) cannot be reproduced
+    expect(result.warrior).toEqual({ ...warrior, warnings: warrior!.warnings!.filter(w => w === 'Missing ASSERT') });
+  });
+
+  it('drops warnings about the original source on the round trip', () => {
+    const asm = new Assembler({ coreSize: 8000 });
+    const { warrior } = asm.assemble(readFileSync(join(warriorsDir, 'sonofvain.red'), 'utf-8'));
+    expect(warrior!.warnings).toEqual(Array(6).fill('Undefined symbol: load0'));
+    const result = asm.assemble(decompileWarrior(warrior!));
+    expect(result.warrior).toEqual({ ...warrior, warnings: [] });
+  });
+
+  it('reassembles load files to identical WarriorData', () => {
+    const { warrior } = parseLoadFile(';name Imp\n;author A. K. Dewdney\nORG 1\nDAT.F $0, $0\nMOV.I $0, $1');
+    expect(warrior!.warnings).toEqual([]);
+    const source = decompileWarrior(warrior!);
+    expect(new Assembler().assemble(source).warrior).toEqual(warrior);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { Assembler } from '../../src/assembler/index';
+import { parseLoadFile } from '../../src/assembler/loadfile';
+
+const asm = (options = {}) => new Assembler({ coreSize: 8000, ...options });
+const find = (source: string, code: string, options = {}) =>
+  asm(options).assemble(source).messages.find(m => m.code === code);
+
+describe('assembler diagnostics', () => {
+  it('locates unknown modifiers', () => {
+    expect(find(';assert 1\nstart  mov.q 0, 1', 'MODERR')).toEqual({
+      type: 'ERROR', code: 'MODERR', line: 2, column: 12, endColumn: 13, token: 'q', text: 'Unknown modifier: Q',
+    });
+  });
+
+  it('locates bad operand expressions by their source text', () => {
+    expect(find('mov 0, 1+)', 'EXPERR')).toMatchObject({ type: 'ERROR', line: 1, column: 8, endColumn: 11, token: '1+)' });
+  });
+
+  it('reports undefined symbols and recursive EQUs as warnings on the token', () => {
+    expect(find('x2 jmp x3', 'UNDERR')).toMatchObject({ type: 'WARNING', line: 1, column: 8, endColumn: 10, token: 'x3' });
+    expect(find('a equ b+1\nb equ a+1\n  mov a, 0', 'RECERR')).toMatchObject({ type: 'WARNING', line: 3, column: 7, token: 'a' });
+  });
+
+  it('reports duplicate labels with the first definition as related location', () => {
+    const result = asm().assemble('loop  mov 0, 1\n      dat 0, 0\n  loop: jmp loop');
+    expect(result.messages.find(m => m.code === 'DLBERR')).toEqual({
+      type: 'WARNING', code: 'DLBERR', line: 3, column: 3, endColumn: 7, token: 'loop', text: 'Duplicate label: LOOP',
+      related: [{ line: 1, column: 1, text: 'LOOP is first defined here' }],
+    });
+    expect(result.warrior!.instructions[2].aValue).toBe(0);
+  });
+
+  it('gives directive problems pMARS codes', () => {
+    expect(find('  rof', 'FORERR')).toMatchObject({ line: 1, column: 3, endColumn: 6 });
+    expect(find('  equ 4\ndat 0', 'EQUERR')).toMatchObject({ type: 'ERROR', column: 3 });
+    expect(find('org 1\ndat 0\ndat 0\n end 1', 'DOEERR')).toMatchObject({ line: 4, column: 2 });
+    expect(find(';assert CORESIZE == 1\ndat 0', 'ASSERR')).toMatchObject({ line: 1, column: 9, token: 'CORESIZE == 1' });
+    expect(find('for 2\ndat 0', 'ROFERR')).toMatchObject({ line: 0 });
+    expect(find('dat 0', 'NASERR')).toMatchObject({ line: 0 });
+    expect(find('dat 0\ndat 0', 'LINERR', { maxLength: 1 })).toMatchObject({ type: 'ERROR' });
+    expect(find('org 5\ndat 0', 'OFSERR')).toMatchObject({ type: 'WARNING' });
+    expect(find('; nothing', 'EMPERR')).toMatchObject({ type: 'ERROR' });
+    expect(find('jmp #1', 'M88ERR', { icws88: true })).toMatchObject({ column: 5, token: '#1' });
+  });
+
+  it('maps columns on continued lines to the physical line', () => {
+    expect(find('mov 0, \\\n    bad)', 'EXPERR')).toMatchObject({ line: 2, column: 5, token: 'bad)' });
+  });
+
+  it('falls back to the whole statement when the token is not in the source', () => {
+    const message = find('i FOR 1\n  spx&i 1\nROF', 'OPCERR');
+    expect(message).toMatchObject({ line: 2, column: 3, endColumn: 10, token: 'SPX01' });
+  });
+});
+
+describe('load file diagnostics', () => {
+  it('carries codes and columns', () => {
+    const [unknown] = parseLoadFile('  MOVE.I $0, $1').messages;
+    expect(unknown).toMatchObject({ code: 'OPCERR', line: 1, column: 3, endColumn: 7, token: 'MOVE' });
+    const [syntax] = parseLoadFile('MOV.I 0, $1').messages;
+    expect(syntax).toMatchObject({ code: 'SYNERR', column: 7, endColumn: 8 });
+  });
+});
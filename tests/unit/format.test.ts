@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { formatRedcode } from '../../src/assembler/format';
+import { Assembler } from '../../src/assembler/index';
+
+const warriorsDir = join(__dirname, '../integration/warriors');
+const warriors = readdirSync(warriorsDir).filter(f => f.endsWith('.red'));
+
+describe('formatRedcode', () => {
+  it('aligns labels, opcodes and comments', () => {
+    const source = [
+      ';redcode-94',
+      ';name Dwarf',
+      'STEP   equ 4',
+      'start add.ab   #STEP,bomb   ; advance',
+      '  mov.i bomb ,  @ bomb',
+      '        jmp start ; loop',
+      'bomb dat # 0',
+      '   end start',
+      'trailing notes are left alone',
+    ].join('\n');
+    expect(formatRedcode(source)).toBe([
+      ';redcode-94',
+      ';name Dwarf',
+      'STEP  EQU    4',
+      'start ADD.AB #STEP, bomb  ; advance',
+      '      MOV.I  bomb, @bomb',
+      '      JMP    start        ; loop',
+      'bomb  DAT    #0',
+      '      END    start',
+      'trailing notes are left alone',
+    ].join('\n'));
+  });
+
+  it('fills in default modifiers when asked', () => {
+    const formatted = formatRedcode('add #4, 3\nmov 2, @2\njmp -2\ndat #0\nslt #1, 2\nmov.i 0, 1', { explicitModifiers: true, case: 'lower' });
+    expect(formatted).toBe('add.ab #4, 3\nmov.i  2, @2\njmp.b  -2\ndat.f  #0\nslt.ab #1, 2\nmov.i  0, 1');
+  });
+
+  it('keeps modifiers implicit when an EQU hides the addressing mode', () => {
+    expect(formatRedcode('imm equ #4\nmov imm, 1', { explicitModifiers: true })).toBe('imm EQU #4\n    MOV imm, 1');
+  });
+
+  it('keeps FOR/ROF structure, multi-line EQUs and continuation lines', () => {
+    const source = 'pair equ mov 0, 1\n     equ jmp -1\ni for 2\n dat i,0\nrof\n  pair\njmp \\\n  0';
+    expect(formatRedcode(source)).toBe('pair EQU  mov 0, 1\n     EQU  jmp -1\ni    FOR  2\n     DAT  i, 0\n     ROF\n     pair\njmp \\\n  0');
+  });
+
+  it.each(warriors)('does not change what %s assembles to', file => {
+    const source = readFileSync(join(warriorsDir, file), 'utf-8');
+    const asm = new Assembler({ coreSize: 8000 });
+    const original = asm.assemble(source).warrior;
+    for (const options of [{}, { explicitModifiers: true, case: 'lower' as const }]) {
+      const formatted = formatRedcode(source, options);
+      const warrior = asm.assemble(formatted).warrior;
+      expect(warrior?.instructions).toEqual(original?.instructions);
+      expect(warrior?.startOffset).toBe(original?.startOffset);
+      expect(warrior?.name).toBe(original?.name);
+      expect(formatRedcode(formatted, options)).toBe(formatted);
+    }
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Hill, HILL_STATE_VERSION, formatHillStandings, formatHillReport, type HillConfig, type HillReport } from '../../src/hill/index';
+import { loadHill, saveHill, openHill } from '../../src/hill/store';
+
+const CONFIG: HillConfig = {
+  name: 'test',
+  size: 2,
+  rounds: 10,
+  options: { coreSize: 800, maxCycles: 2000, maxProcesses: 80, maxLength: 50, minSeparation: 50, seed: 11 },
+};
+const DWARF = ';name Dwarf\n;author A. K. Dewdney\nadd #4, 3\nmov 2, @2\njmp -2\ndat #0, #0';
+const IMP = ';name Imp\n;author A. K. Dewdney\nmov.i 0, 1';
+const SUICIDE = ';name Suicide\n;author Nobody\ndat #0, #0';
+const BOMBER = ';name Bomber\n;author Somebody\nadd #12, 3\nmov 2, @2\njmp -2\ndat #0, #0';
+
+describe('Hill', () => {
+  it('puts the first challenger on the hill', () => {
+    const hill = new Hill(CONFIG);
+    const { success, report } = hill.submit(DWARF);
+    expect(success).toBe(true);
+    expect(report).toMatchObject({ challenge: 1, challenger: { id: 1, name: 'Dwarf' }, rank: 1, pushedOff: [] });
+    expect(hill.standings()).toEqual([
+      { rank: 1, id: 1, name: 'Dwarf', author: 'A. K. Dewdney', age: 0, wins: 0, losses: 0, ties: 0, score: 0 },
+    ]);
+  });
+
+  it('leaves the hill unchanged when a challenger does not assemble', () => {
+    const hill = new Hill(CONFIG);
+    const result = hill.submit('mov.q 0, 1');
+    expect(result).toMatchObject({ success: false, report: null });
+    expect(result.messages).toContainEqual(expect.objectContaining({ type: 'ERROR', code: 'MODERR' }));
+    expect(hill.getState()).toMatchObject({ challenges: 0, nextId: 1, residents: [], history: [] });
+  });
+
+  it('fights every resident and keeps both sides of the result matrix', () => {
+    const hill = new Hill({ ...CONFIG, size: 3 });
+    hill.submit(DWARF);
+    hill.submit(IMP);
+    hill.submit(SUICIDE);
+    const dwarfVsSuicide = hill.getResult(1, 3);
+    expect(dwarfVsSuicide).toEqual({ wins: 10, losses: 0, ties: 0 });
+    expect(hill.getResult(3, 1)).toEqual({ wins: 0, losses: 10, ties: 0 });
+    const dwarfVsImp = hill.getResult(1, 2)!;
+    expect(hill.getResult(2, 1)).toEqual({ wins: dwarfVsImp.losses, losses: dwarfVsImp.wins, ties: dwarfVsImp.ties });
+    expect(hill.getResult(1, 1)).toBeNull();
+
+    const matrix = hill.resultMatrix();
+    const order = hill.standings().map(s => s.id);
+    expect(matrix).toHaveLength(3);
+    order.forEach((id, i) => expect(matrix[i][i]).toBeNull());
+    expect(matrix[order.indexOf(1)][order.indexOf(3)]).toEqual(dwarfVsSuicide);
+  });
+
+  it('ranks by score and pushes the lowest warrior off', () => {
+    const hill = new Hill(CONFIG);
+    hill.submit(SUICIDE);
+    hill.submit(IMP);
+    const { report } = hill.submit(DWARF);
+    expect(report!.pushedOff).toEqual([{ id: 1, name: 'Suicide', author: 'Nobody' }]);
+    expect(report!.rank).not.toBeNull();
+    const standings = hill.standings();
+    expect(standings.map(s => s.name).sort()).toEqual(['Dwarf', 'Imp']);
+    expect(standings[0].score).toBeGreaterThanOrEqual(standings[1].score);
+    // Scores are recomputed without the warrior that was pushed off
+    const dwarf = standings.find(s => s.name === 'Dwarf')!;
+    const record = hill.getResult(dwarf.id, 2)!;
+    expect(dwarf).toMatchObject({ ...record, score: (3 * record.wins + record.ties) * 100 / 10 });
+    expect(hill.getResult(2, 1)).toBeNull();
+  });
+
+  it('ages residents only when a challenger makes the hill', () => {
+    const hill = new Hill({ ...CONFIG, size: 3 });
+    hill.submit(DWARF);
+    hill.submit(BOMBER);
+    expect(hill.submit(SUICIDE).report).toMatchObject({ rank: 3, pushedOff: [] });
+    const ages = (): Record<number, number> => Object.fromEntries(hill.standings().map(s => [s.id, s.age]));
+    expect(ages()).toEqual({ 1: 2, 2: 1, 3: 0 });
+
+    // Equal scores keep the older warrior ahead, so the second Suicide drops straight off
+    expect(hill.submit(SUICIDE).report).toMatchObject({ rank: null, pushedOff: [{ id: 4, name: 'Suicide' }] });
+    expect(ages()).toEqual({ 1: 2, 2: 1, 3: 0 });
+    expect(hill.history().map(r => [r.challenge, r.rank])).toEqual([[1, 1], [2, 2], [3, 3], [4, null]]);
+  });
+
+  it('continues from a JSON round trip of its state', () => {
+    const original = new Hill(CONFIG);
+    original.submit(DWARF);
+    original.submit(IMP);
+    const restored = Hill.fromState(JSON.parse(JSON.stringify(original.getState())));
+    expect(restored.config).toEqual(CONFIG);
+    expect(restored.submit(BOMBER)).toEqual(original.submit(BOMBER));
+    expect(restored.getState()).toEqual(original.getState());
+  });
+
+  it('does not expose its state for mutation', () => {
+    const hill = new Hill(CONFIG);
+    hill.submit(DWARF);
+    hill.getState().residents[0].age = 99;
+    hill.history()[0].standings[0].score = 99;
+    expect(hill.standings()[0].age).toBe(0);
+    expect(hill.history()[0].standings[0].score).toBe(0);
+  });
+
+  it('rejects bad configs and unknown state versions', () => {
+    expect(() => new Hill({ ...CONFIG, size: 0 })).toThrow('Hill size must be a positive integer, got 0');
+    expect(() => new Hill({ ...CONFIG, rounds: 1.5 })).toThrow('Hill rounds must be a positive integer, got 1.5');
+    const state = { ...new Hill(CONFIG).getState(), version: HILL_STATE_VERSION + 1 };
+    expect(() => Hill.fromState(state)).toThrow(`Unsupported hill state version ${HILL_STATE_VERSION + 1} (expected ${HILL_STATE_VERSION})`);
+  });
+});
+
+describe('hill formatting', () => {
+  const report: HillReport = {
+    challenge: 7,
+    challenger: { id: 9, name: 'Bomber', author: 'Somebody' },
+    rank: 1,
+    pushedOff: [{ id: 2, name: 'Imp', author: 'A. K. Dewdney' }],
+    standings: [
+      { rank: 1, id: 9, name: 'Bomber', author: 'Somebody', age: 0, wins: 15, losses: 3, ties: 2, score: 235 },
+      { rank: 2, id: 1, name: 'Dwarf', author: 'A. K. Dewdney', age: 4, wins: 3, losses: 15, ties: 2, score: 55 },
+    ],
+  };
+
+  it('formats standings like a KOTH table', () => {
+    expect(formatHillStandings(report.standings)).toBe([
+      ' #     %W/   %L/   %T  Name    Author         Score  Age',
+      ' 1   75.0/ 15.0/ 10.0  Bomber  Somebody       235.0    0',
+      ' 2   15.0/ 75.0/ 10.0  Dwarf   A. K. Dewdney   55.0    4',
+      '',
+    ].join('\n'));
+  });
+
+  it('summarizes a challenge', () => {
+    expect(formatHillReport(report).split('\n')[0]).toBe('Challenge 7: Bomber by Somebody entered the hill at rank 1; pushed off Imp by A. K. Dewdney');
+    const failed = { ...report, rank: null, pushedOff: [report.challenger] };
+    expect(formatHillReport(failed).split('\n')[0]).toBe('Challenge 7: Bomber by Somebody did not make the hill');
+  });
+});
+
+describe('hill store', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'pmars-hill-'));
+  const path = join(dir, 'hill.json');
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('starts a new hill when there is no file and saves it as JSON', () => {
+    const hill = openHill(path, CONFIG);
+    expect(hill.standings()).toEqual([]);
+    hill.submit(DWARF);
+    saveHill(hill, path);
+    expect(existsSync(`${path}.tmp`)).toBe(false);
+    expect(JSON.parse(readFileSync(path, 'utf-8'))).toEqual(hill.getState());
+  });
+
+  it('reloads the saved hill', () => {
+    const hill = openHill(path, { ...CONFIG, size: 5 });
+    expect(hill.config.size).toBe(2);
+    expect(hill.standings().map(s => s.name)).toEqual(['Dwarf']);
+    expect(loadHill(path).getState()).toEqual(hill.getState());
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { Assembler } from '../../src/assembler/index';
+import { Simulator } from '../../src/simulator/index';
+import { Opcode, Modifier, AddressMode } from '../../src/types';
+import { encodeOpcode, decodeOpcode } from '../../src/constants';
+import { checkIcws88Instruction, defaultModifier88 } from '../../src/icws88';
+
+const asm88 = () => new Assembler({ coreSize: 8000, icws88: true });
+
+function errors(source: string): string[] {
+  return asm88().assemble(source).messages.filter(m => m.type === 'ERROR').map(m => m.text);
+}
+
+describe("ICWS'88 assembler mode", () => {
+  it("assembles a classic '88 warrior with '88 modifiers", () => {
+    const result = asm88().assemble('bomb DAT #0\nstart ADD #4, bomb\nMOV bomb, @bomb\nJMP start\nCMP 1, 2\nSLT 1, 2\nEND start');
+    expect(result.success).toBe(true);
+    const mods = result.warrior!.instructions.map(i => decodeOpcode(i.opcode).modifier);
+    expect(mods).toEqual([Modifier.F, Modifier.AB, Modifier.I, Modifier.B, Modifier.I, Modifier.B]);
+  });
+
+  it('rejects modifiers', () => {
+    expect(errors('MOV.I 0, 1')).toEqual(["Modifiers are not allowed in ICWS'88: MOV.I"]);
+  });
+
+  it.each(['SEQ', 'SNE', 'NOP', 'LDP', 'STP', 'MUL', 'DIV', 'MOD'])('rejects %s', op => {
+    expect(errors(`${op} 1, 2`)).toEqual([`${op} is not an ICWS'88 opcode`]);
+  });
+
+  it.each(['*', '{', '}', '>'])("rejects the '94 mode %s", mode => {
+    expect(errors(`MOV ${mode}1, 2`)).toEqual([`Addressing mode '${mode}' is not allowed in ICWS'88`]);
+  });
+
+  it.each([
+    ['MOV 1, #2', "B-mode '#' is not allowed for MOV in ICWS'88"],
+    ['ADD #1, #2', "B-mode '#' is not allowed for ADD in ICWS'88"],
+    ['SLT 1, #2', "B-mode '#' is not allowed for SLT in ICWS'88"],
+    ['JMP #1', "A-mode '#' is not allowed for JMP in ICWS'88"],
+    ['DJN #1, 2', "A-mode '#' is not allowed for DJN in ICWS'88"],
+    ['DAT 1, #1', "A-mode '$' is not allowed for DAT in ICWS'88"],
+    ['DAT #1, @1', "B-mode '@' is not allowed for DAT in ICWS'88"],
+  ])('rejects the mode combination %s', (source, error) => {
+    expect(errors(source)).toEqual([error]);
+  });
+
+  it('accepts the same constructs without the option', () => {
+    expect(new Assembler({ coreSize: 8000 }).assemble('MOV.I }1, #2\nSEQ 1, 2').success).toBe(true);
+  });
+});
+
+describe("ICWS'88 simulator mode", () => {
+  const warrior = (source: string, icws88 = false) => new Assembler({ coreSize: 8000, icws88 }).assemble(source).warrior!;
+
+  it("runs '88 warriors", () => {
+    const sim = new Simulator({ icws88: true, maxCycles: 100 });
+    sim.loadWarriors([warrior('MOV 0, 1', true), warrior('JMP 0', true)]);
+    expect(sim.run(1)[0].outcome).toBe('TIE');
+  });
+
+  it("refuses warriors that use '94 features", () => {
+    const sim = new Simulator({ icws88: true });
+    expect(() => sim.loadWarriors([warrior(';name Modern\nMOV.AB 0, 1'), warrior('JMP 0')]))
+      .toThrow(`Warrior "Modern" is not valid ICWS'88 at instruction 0: MOV has a modifier that ICWS'88 cannot express`);
+    expect(() => sim.loadWarriors([warrior('JMP 0'), warrior(';name Seq\nSEQ 1, 2')])).toThrow(/SEQ is not an ICWS'88 opcode/);
+  });
+});
+
+describe('checkIcws88Instruction', () => {
+  it('checks opcode, modes and modifier', () => {
+    const inst = (op: Opcode, mod: Modifier, aMode: AddressMode, bMode: AddressMode) =>
+      ({ opcode: encodeOpcode(op, mod), aMode, bMode, aValue: 0, bValue: 0 });
+    expect(checkIcws88Instruction(inst(Opcode.ADD, Modifier.AB, AddressMode.IMMEDIATE, AddressMode.DIRECT))).toBeNull();
+    expect(checkIcws88Instruction(inst(Opcode.ADD, Modifier.F, AddressMode.IMMEDIATE, AddressMode.DIRECT))).toMatch(/modifier/);
+    expect(checkIcws88Instruction(inst(Opcode.MOV, Modifier.I, AddressMode.A_INDIRECT, AddressMode.DIRECT))).toMatch(/A-mode '\*'/);
+    expect(defaultModifier88(Opcode.SUB, AddressMode.DIRECT)).toBe(Modifier.F);
+  });
+});
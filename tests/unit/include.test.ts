@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { Assembler, type IncludeResolver } from '../../src/assembler/index';
+
+const files: Record<string, string> = {
+  'steps.red': 'STEP equ 3044\nGAP  equ 12',
+  'bomber.red': ';include "steps.red"\nloop add #STEP, bomb\n     mov bomb, @bomb\n     jmp loop',
+  'self.red': ';include self.red',
+  'broken.red': 'dat 0\n  mov.q 0, 1',
+};
+const resolver: IncludeResolver = path => files[path] ?? null;
+const asm = () => new Assembler({ coreSize: 8000 }, { resolveInclude: resolver, listing: true });
+
+describe(';include', () => {
+  it('splices included EQUs and code into the warrior', () => {
+    const result = asm().assemble(';name Inc\n;include "bomber.red"\nbomb dat #0, #GAP');
+    expect(result.success).toBe(true);
+    expect(result.warrior!.instructions.length).toBe(4);
+    expect(result.warrior!.instructions[0].aValue).toBe(3044);
+    expect(result.warrior!.instructions[3].bValue).toBe(12);
+  });
+
+  it('maps source locations and symbols to the included file', () => {
+    const result = asm().assemble(';include "bomber.red"\nbomb dat #0, #GAP');
+    expect(result.sourceMap.map(s => [s.file, s.line])).toEqual([
+      ['bomber.red', 2], ['bomber.red', 3], ['bomber.red', 4], [undefined, 2],
+    ]);
+    expect(result.symbols.equs.find(e => e.name === 'STEP')).toMatchObject({ file: 'steps.red', line: 1 });
+    expect(result.symbols.labels.find(l => l.name === 'BOMB')).toEqual({ name: 'BOMB', offset: 3, line: 2 });
+    expect(result.listing).toContain('; bomber.red:2: loop add #STEP, bomb');
+  });
+
+  it('reports diagnostics at the real file and line', () => {
+    const result = asm().assemble('jmp 0\n;include "broken.red"');
+    expect(result.messages.find(m => m.code === 'MODERR')).toMatchObject({ file: 'broken.red', line: 2, column: 7 });
+  });
+
+  it('passes the including file to the resolver', () => {
+    const calls: [string, string | null][] = [];
+    new Assembler({}, { resolveInclude: (path, from) => (calls.push([path, from]), files[path] ?? null) })
+      .assemble(';include bomber.red\nbomb dat 0');
+    expect(calls).toEqual([['bomber.red', null], ['steps.red', 'bomber.red']]);
+  });
+
+  it('reports missing, failing and recursive includes', () => {
+    const missing = asm().assemble('  ;include "nope.red"\njmp 0');
+    expect(missing.success).toBe(false);
+    expect(missing.messages[0]).toEqual({
+      type: 'ERROR', code: 'INCERR', line: 1, column: 13, endColumn: 21, token: 'nope.red', text: 'Include file not found: "nope.red"',
+    });
+    const failing = new Assembler({}, { resolveInclude: () => { throw new Error('EACCES'); } }).assemble(';include x.red\njmp 0');
+    expect(failing.messages[0].text).toBe('Cannot include "x.red": EACCES');
+    const recursive = asm().assemble(';include self.red\njmp 0');
+    expect(recursive.messages[0]).toMatchObject({ code: 'INCERR', file: 'self.red', line: 1, text: 'Recursive include of "self.red"' });
+  });
+
+  it('treats ;include as a comment without a resolver', () => {
+    const result = new Assembler().assemble(';include "steps.red"\njmp 0');
+    expect(result.success).toBe(true);
+    expect(result.sourceMap[0]).toEqual({ line: 2, column: 1 });
+  });
+});
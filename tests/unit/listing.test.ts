@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Assembler } from '../../src/assembler/index';
+
+describe('assembly listing', () => {
+  it('is only produced when requested', () => {
+    expect(new Assembler().assemble('jmp 0').listing).toBeUndefined();
+    expect(new Assembler({}, { listing: true }).assemble('bogus 1, 2').listing).toBeUndefined();
+  });
+
+  it('shows offsets, labels, disassembly, source lines and the entry point', () => {
+    const source = [
+      ';name Dwarf',
+      ';author A. K. Dewdney',
+      'bomb  dat   #0',
+      'start add   #4, bomb   ; step',
+      '      mov   bomb, @bomb',
+      '      jmp   start',
+      '      end   start',
+    ].join('\n');
+    const result = new Assembler({ coreSize: 8000 }, { listing: true }).assemble(source);
+    expect(result.listing).toBe([
+      'Program "Dwarf" (length 4) by "A. K. Dewdney"',
+      '',
+      '  0  bomb   DAT.F  #0, #0    ; 3: bomb  dat   #0',
+      '> 1  start  ADD.AB #4, $-1   ; 4: start add   #4, bomb   ; step',
+      '  2         MOV.I  $-2, @-2  ; 5: mov   bomb, @bomb',
+      '  3         JMP.B  $-2, $0   ; 6: jmp   start',
+      '',
+    ].join('\n'));
+  });
+
+  it('lists every instruction of a FOR-heavy warrior', () => {
+    const source = readFileSync(join(__dirname, '../integration/warriors/excalibur.red'), 'utf-8');
+    const result = new Assembler({ coreSize: 8000, maxLength: 200 }, { listing: true }).assemble(source);
+    const rows = result.listing!.split('\n').slice(2, -1);
+    expect(rows.length).toBe(result.warrior!.instructions.length);
+    expect(rows.filter(r => r.startsWith('>')).length).toBe(1);
+    expect(rows.find(r => /^  \d+  bp /.test(r))).toContain('SPL.B  $1431, $8');
+    expect(rows[8]).toContain('; 20: spl.a');
+  });
+});
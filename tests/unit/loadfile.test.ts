@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { parseLoadFile } from '../../src/assembler/loadfile';
+import { Assembler } from '../../src/assembler/index';
+import { Opcode, Modifier, AddressMode } from '../../src/types';
+import { encodeOpcode } from '../../src/constants';
+
+describe('parseLoadFile', () => {
+  it('parses explicit instructions and metadata', () => {
+    const result = parseLoadFile([
+      ';redcode-94',
+      ';name Dwarf',
+      ';author A. K. Dewdney',
+      ';strategy bombs every fourth cell',
+      '       ORG     1',
+      '       DAT.F   #     0, #     0',
+      '       ADD.AB  #     4, $    -1',
+      '       MOV.AB  #     0, @    -2   ; bomb',
+      '       JMP.B   $    -2, $     0',
+      '       END',
+    ].join('\n'), { coreSize: 8000 });
+    expect(result.success).toBe(true);
+    expect(result.messages).toEqual([]);
+    const w = result.warrior!;
+    expect(w).toMatchObject({ name: 'Dwarf', author: 'A. K. Dewdney', strategy: 'bombs every fourth cell', startOffset: 1, pin: null });
+    expect(w.instructions[1]).toEqual({
+      opcode: encodeOpcode(Opcode.ADD, Modifier.AB),
+      aMode: AddressMode.IMMEDIATE,
+      aValue: 4,
+      bMode: AddressMode.DIRECT,
+      bValue: 7999,
+    });
+  });
+
+  it('matches the assembler for the same warrior', () => {
+    const source = 'ADD.AB #4, $3\nMOV.I $2, @2\nJMP.B $-2, $0\nDAT.F #0, #0';
+    const assembled = new Assembler({ coreSize: 8000 }).assemble(source).warrior!;
+    const loaded = parseLoadFile(source).warrior!;
+    expect(loaded.instructions).toEqual(assembled.instructions);
+  });
+
+  it('uses END as the start offset without ORG and stops there', () => {
+    const result = parseLoadFile('DAT.F #0, #0\nJMP.B $0, $0\nEND 1\nthis is ignored');
+    expect(result.warrior!.startOffset).toBe(1);
+    expect(result.warrior!.instructions.length).toBe(2);
+  });
+
+  it('reads PIN and warns when END conflicts with ORG', () => {
+    const result = parseLoadFile('ORG 0\nPIN 12\nJMP.B $0, $0\nEND 1');
+    expect(result.warrior!.pin).toBe(12);
+    expect(result.warrior!.startOffset).toBe(0);
+    expect(result.messages).toEqual([{ type: 'WARNING', code: 'DOEERR', line: 0, text: 'END offset ignored, ORG already set' }]);
+  });
+
+  it.each([
+    ['MOV $0, $1', "Expected '.' and modifier after MOV at column 5, found '$'"],
+    ['MOV.Q $0, $1', "Unknown modifier 'Q'"],
+    ['MOVE.I $0, $1', "Unknown opcode 'MOVE'"],
+    ['start MOV.I $0, $1', "Unknown opcode 'start'"],
+    ['MOV.I 0, $1', "Expected addressing mode for A-operand at column 7, found '0'"],
+    ['MOV.I $x, $1', "Expected A-field number at column 8, found 'x'"],
+    ['MOV.I $0 $1', "Expected ',' between operands at column 10, found '$'"],
+    ['MOV.I $0', "Expected ',' between operands at column 9, found end of line"],
+    ['MOV.I $0, $1+1', "Unexpected text after B-operand at column 13, found '+'"],
+    ['ORG start', "Expected ORG value at column 5, found 's'"],
+    ['DAT.F #0, #0\n!', "Expected opcode at column 1, found '!'"],
+  ])('rejects %j', (source, error) => {
+    const result = parseLoadFile(source);
+    expect(result.success).toBe(false);
+    expect(result.warrior).toBeNull();
+    expect(result.messages.map(m => m.text)).toContain(error);
+  });
+
+  it('reports every malformed line with its line number', () => {
+    const result = parseLoadFile('DAT.F #0, #0\nMOV $0, $1\nJMP.B $0, $0\nSPL.B 0, 0');
+    expect(result.messages.map(m => m.line)).toEqual([2, 4]);
+  });
+
+  it('checks program length and start offset', () => {
+    expect(parseLoadFile('; nothing').messages[0].text).toBe('No instructions found');
+    expect(parseLoadFile('DAT.F #0, #0\nDAT.F #0, #0', { maxLength: 1 }).messages[0].text).toBe('Warrior has 2 instructions, limit is 1');
+    expect(parseLoadFile('ORG 3\nDAT.F #0, #0').messages[0].text).toBe('Start offset 3 is outside program bounds (0-0)');
+  });
+});
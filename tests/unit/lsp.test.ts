@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { PassThrough } from 'node:stream';
+import { RedcodeLanguageService } from '../../src/lsp/service';
+import { startLanguageServer } from '../../src/lsp/server';
+
+const source = [
+  ';assert CORESIZE == 8000',   // 0
+  'STEP  equ 3044',             // 1
+  'start add.ab #STEP, bomb',   // 2
+  '      mov.i bomb, @bomb',    // 3
+  '      jmp start',            // 4
+  'i for 2',                    // 5
+  '      dat #i, #PSPACESIZE',  // 6
+  'rof',                        // 7
+  'bomb  dat 0, 0',             // 8
+].join('\n');
+const uri = 'file:///dwarf.red';
+
+describe('RedcodeLanguageService', () => {
+  const service = new RedcodeLanguageService({ coreSize: 8000 });
+
+  it('converts assembler messages into LSP diagnostics', () => {
+    const diagnostics = new RedcodeLanguageService().diagnostics('jmp 0\n  mov.q 0, 1\nx jmp x\nx dat 0', uri);
+    expect(diagnostics.find(d => d.code === 'MODERR')).toEqual({
+      range: { start: { line: 1, character: 6 }, end: { line: 1, character: 7 } },
+      severity: 1, code: 'MODERR', source: 'pmars', message: 'Unknown modifier: Q',
+    });
+    expect(diagnostics.find(d => d.code === 'DLBERR')).toMatchObject({
+      severity: 2,
+      relatedInformation: [{ location: { uri, range: { start: { line: 2, character: 0 } } } }],
+    });
+    expect(diagnostics.find(d => d.code === 'NASERR')!.range.start).toEqual({ line: 0, character: 0 });
+  });
+
+  it('shows symbol and predefined constant values on hover', () => {
+    expect(service.hover(source, { line: 2, character: 15 })!.contents.value).toBe('**STEP** EQU `3044`');
+    expect(service.hover(source, { line: 4, character: 12 })!.contents.value).toBe('**START** label, offset 0');
+    expect(service.hover(source, { line: 6, character: 11 })!.contents.value).toBe('**I** FOR counter, 1 to 2');
+    expect(service.hover(source, { line: 6, character: 18 })!.contents.value).toBe('**PSPACESIZE** predefined constant = 500');
+    expect(service.hover(source, { line: 0, character: 10 })).toMatchObject({
+      contents: { value: '**CORESIZE** predefined constant = 8000' },
+      range: { start: { line: 0, character: 8 }, end: { line: 0, character: 16 } },
+    });
+    expect(service.hover(source, { line: 2, character: 7 })).toBeNull();
+  });
+
+  it('finds definitions and references of labels, EQUs and FOR counters', () => {
+    expect(service.definition(source, { line: 3, character: 13 }, uri)).toEqual({
+      uri, range: { start: { line: 8, character: 0 }, end: { line: 8, character: 4 } },
+    });
+    expect(service.definition(source, { line: 6, character: 11 }, uri)!.range.start).toEqual({ line: 5, character: 0 });
+    expect(service.references(source, { line: 8, character: 1 }, uri).map(l => [l.range.start.line, l.range.start.character]))
+      .toEqual([[2, 20], [3, 12], [3, 19], [8, 0]]);
+    expect(service.references(source, { line: 1, character: 0 }, uri, false).map(l => l.range.start.line)).toEqual([2]);
+  });
+
+  it('completes opcodes, symbols and modifiers', () => {
+    const labels = service.completion(source, { line: 4, character: 6 }).map(c => c.label);
+    expect(labels).toEqual(expect.arrayContaining(['MOV', 'SPL', 'EQU', 'STEP', 'BOMB', 'CORESIZE']));
+    expect(service.completion('mov.', { line: 0, character: 4 }).map(c => c.label)).toEqual(['A', 'B', 'AB', 'BA', 'F', 'X', 'I']);
+    expect(service.completion('mov 0, 1 ; c', { line: 0, character: 12 })).toEqual([]);
+  });
+
+  it('folds FOR/ROF blocks, nested ones included', () => {
+    expect(service.foldingRanges('a for 2\n  for 3\n  dat 0\n  rof\nrof\njmp 0')).toEqual([
+      { startLine: 0, endLine: 4 },
+      { startLine: 1, endLine: 3 },
+    ]);
+  });
+});
+
+describe('language server over streams', () => {
+  function connect() {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const exits: number[] = [];
+    startLanguageServer(input, output, { onExit: code => exits.push(code) });
+    let buffer = '';
+    const received: any[] = [];
+    output.on('data', chunk => {
+      buffer += chunk.toString();
+      let match;
+      while ((match = /^Content-Length: (\d+)\r\n\r\n/.exec(buffer)) && buffer.length >= match[0].length + Number(match[1])) {
+        received.push(JSON.parse(buffer.substr(match[0].length, Number(match[1]))));
+        buffer = buffer.substring(match[0].length + Number(match[1]));
+      }
+    });
+    const send = (message: object) => {
+      const body = JSON.stringify({ jsonrpc: '2.0', ...message });
+      input.write(`Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`);
+    };
+    return { send, received, exits };
+  }
+
+  it('initializes, publishes diagnostics and answers requests', async () => {
+    const { send, received, exits } = connect();
+    send({ id: 1, method: 'initialize', params: { initializationOptions: { coreSize: 800 } } });
+    send({ method: 'textDocument/didOpen', params: { textDocument: { uri, text: 'jmp 0\n  mov.q 0, 1' } } });
+    send({ method: 'textDocument/didChange', params: { textDocument: { uri }, contentChanges: [{ text: ';assert 1\njmp CORESIZE' }] } });
+    send({ id: 2, method: 'textDocument/hover', params: { textDocument: { uri }, position: { line: 1, character: 6 } } });
+    send({ id: 3, method: 'workspace/symbol', params: {} });
+    send({ id: 4, method: 'shutdown' });
+    send({ method: 'exit' });
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(received[0]).toMatchObject({ id: 1, result: { capabilities: { hoverProvider: true, textDocumentSync: 1 } } });
+    expect(received[1]).toMatchObject({ method: 'textDocument/publishDiagnostics', params: { uri } });
+    expect(received[1].params.diagnostics.map((d: { code: string }) => d.code)).toContain('MODERR');
+    expect(received[2].params.diagnostics).toEqual([]);
+    expect(received[3]).toMatchObject({ id: 2, result: { contents: { value: '**CORESIZE** predefined constant = 800' } } });
+    expect(received[4]).toMatchObject({ id: 3, error: { code: -32601 } });
+    expect(received[5]).toEqual({ jsonrpc: '2.0', id: 4, result: null });
+    expect(exits).toEqual([0]);
+  });
+
+  it('rejects requests before initialize', async () => {
+    const { send, received } = connect();
+    send({ id: 1, method: 'textDocument/hover', params: { textDocument: { uri }, position: { line: 0, character: 0 } } });
+    await new Promise(resolve => setImmediate(resolve));
+    expect(received[0]).toMatchObject({ id: 1, error: { code: -32002 } });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { findSteps, rateStep, impStep, impRings } from '../../src/utils/optima';
+
+describe('rateStep', () => {
+  it('records the largest gap after each bomb', () => {
+    const rating = rateStep(3044, 8000);
+    expect(rating).toMatchObject({ step: 3044, mod: 4, coprime: false });
+    expect(rating.gaps).toHaveLength(2000);
+    expect(rating.gaps.slice(0, 6)).toEqual([8000, 4956, 3044, 3044, 1912, 1912]);
+    expect(rating.gaps[1999]).toBe(4);
+  });
+
+  it('rates even coverage above creeping coverage', () => {
+    expect(rateStep(3044, 8000).quality).toBeGreaterThan(rateStep(4, 8000).quality);
+    expect(rateStep(3044, 8000).quality).toBeLessThanOrEqual(1);
+  });
+
+  it('normalizes negative steps and stops early with bombs', () => {
+    const rating = rateStep(-5, 800, { bombs: 3 });
+    expect(rating).toMatchObject({ step: 795, mod: 5, gaps: [800, 795, 790] });
+  });
+
+  it('counts every cell hit per bomb', () => {
+    expect(rateStep(100, 800, { offsets: [0, 400], bombs: 2 }).gaps).toEqual([400, 300]);
+  });
+});
+
+describe('findSteps', () => {
+  it('finds the classic mod-4 optima for an 8000 core', () => {
+    const steps = findSteps(8000, { mod: 4, count: 2 }).map(r => r.step);
+    expect(steps).toEqual([3044, 3364]);
+  });
+
+  it('finds mod-5 steps', () => {
+    const ratings = findSteps(8000, { mod: 5, count: 3 });
+    expect(ratings.map(r => r.step)).toEqual([3315, 2365, 3095]);
+    expect(ratings.every(r => r.mod === 5)).toBe(true);
+  });
+
+  it('defaults to coprime steps ranked by quality', () => {
+    const ratings = findSteps(800, { count: 5 });
+    expect(ratings).toHaveLength(5);
+    expect(ratings.every(r => r.coprime && r.gaps.length === 800)).toBe(true);
+    for (let i = 1; i < ratings.length; i++) expect(ratings[i].quality).toBeLessThanOrEqual(ratings[i - 1].quality);
+  });
+
+  it('honours the step range', () => {
+    const ratings = findSteps(800, { mod: 4, minStep: 100, maxStep: 120, count: 100 });
+    expect(ratings.map(r => r.step).sort((a, b) => a - b)).toEqual([108, 116]);
+  });
+
+  it('rejects a mod that does not divide the core size', () => {
+    expect(() => findSteps(8000, { mod: 3 })).toThrow('mod 3 does not divide core size 8000');
+  });
+});
+
+describe('impStep', () => {
+  it('finds n-point imp ring steps', () => {
+    expect(impStep(3, 8000)).toBe(2667);
+    expect(impStep(7, 8000)).toBe(1143);
+    expect((3 * impStep(3, 8192)!) % 8192).toBe(1);
+  });
+
+  it('returns null when no ring exists', () => {
+    expect(impStep(2, 8000)).toBeNull();
+    expect(impStep(5, 8000)).toBeNull();
+  });
+
+  it('lists the ring sizes a core supports', () => {
+    expect(impRings(8000, 10)).toEqual([
+      { points: 3, step: 2667 },
+      { points: 7, step: 1143 },
+      { points: 9, step: 889 },
+    ]);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, readdirSync, readFileSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import ts from 'typescript';
+import { Simulator } from '../../src/simulator/index';
+import { Assembler } from '../../src/assembler/index';
+import { mergeBattleResults } from '../../src/simulator/results';
+import { runRoundChunk, splitRounds, usesPSpace } from '../../src/parallel/chunk';
+import { ParallelBattleRunner } from '../../src/parallel/runner';
+import { type WarriorData } from '../../src/types';
+
+function makeWarrior(source: string): WarriorData {
+  const asm = new Assembler({ coreSize: 800, maxLength: 100, maxProcesses: 80 });
+  const result = asm.assemble(source);
+  if (!result.success || !result.warrior) throw new Error(`Assembly failed: ${result.messages.map(m => m.text).join(', ')}`);
+  return result.warrior;
+}
+
+const options = { coreSize: 800, maxCycles: 2000, maxProcesses: 80, minSeparation: 50, seed: 21 };
+const warriors = () => [
+  makeWarrior('ADD.AB #4, $3\nMOV.I $2, @2\nJMP $-2, $0\nDAT.F #0, #0'),
+  makeWarrior('SPL $0\nMOV.I $0, $1'),
+  makeWarrior('MOV.I $0, $1'),
+];
+
+function makeSim(ws: WarriorData[]): Simulator {
+  const sim = new Simulator(options);
+  sim.loadWarriors(ws);
+  return sim;
+}
+
+describe('Simulator.planRounds', () => {
+  it('predicts positions and starting warriors of upcoming rounds', () => {
+    const sim = makeSim(warriors());
+    const plans = sim.planRounds(5);
+    expect(plans.map(p => p.round)).toEqual([1, 2, 3, 4, 5]);
+    expect(plans.map(p => p.startingWarrior)).toEqual([0, 1, 2, 0, 1]);
+    for (const plan of plans) {
+      sim.setupRound();
+      expect(sim.getWarriors().map(w => w.position)).toEqual(plan.positions);
+      while (sim.step() === null);
+    }
+  });
+
+  it('continues from the current round', () => {
+    const sim = makeSim(warriors());
+    const all = sim.planRounds(4);
+    sim.run(2);
+    expect(sim.planRounds(2)).toEqual(all.slice(2));
+  });
+});
+
+describe('Simulator.seekRound', () => {
+  it('starts the planned round', () => {
+    const ws = warriors();
+    const serial = makeSim(ws);
+    const plans = serial.planRounds(4);
+    const expected = serial.run(4);
+
+    const sim = makeSim(ws);
+    sim.seekRound(plans[2]);
+    expect(sim.run(2)).toEqual(expected.slice(2));
+  });
+
+  it('rejects invalid round numbers', () => {
+    const sim = makeSim(warriors());
+    const plan = sim.planRounds(1)[0];
+    expect(() => sim.seekRound({ ...plan, round: 0 })).toThrow(/round/);
+  });
+});
+
+describe('round chunks', () => {
+  it('split nearly evenly and in order', () => {
+    const plans = makeSim(warriors()).planRounds(10);
+    const chunks = splitRounds(plans, 4);
+    expect(chunks.map(c => c.rounds)).toEqual([3, 3, 2, 2]);
+    expect(chunks.map(c => c.start.round)).toEqual([1, 4, 7, 9]);
+    expect(splitRounds(plans.slice(0, 2), 4).length).toBe(2);
+  });
+
+  it('merge into the same result as a serial battle', () => {
+    const ws = warriors();
+    const sim = makeSim(ws);
+    const plans = sim.planRounds(12);
+    const serial = sim.runBattle(12);
+
+    const parts = splitRounds(plans, 3).map(({ start, rounds }) =>
+      runRoundChunk({ warriors: ws, options, start, rounds }));
+    expect(mergeBattleResults(parts)).toEqual(serial);
+  });
+
+  it('detect P-space warriors', () => {
+    expect(usesPSpace(warriors())).toBe(false);
+    expect(usesPSpace([makeWarrior('LDP.AB #0, $1\nJMP $0')])).toBe(true);
+    expect(usesPSpace([makeWarrior('STP.AB #1, #2\nJMP $0')])).toBe(true);
+  });
+});
+
+describe('mergeBattleResults', () => {
+  it('offsets first loss rounds by earlier parts', () => {
+    const sim = makeSim([makeWarrior('JMP $0'), makeWarrior('DAT #0, #0')]);
+    const merged = mergeBattleResults([sim.runBattle(2), sim.runBattle(3)]);
+    expect(merged.rounds).toBe(5);
+    expect(merged.warriors[1].firstLossRound).toBe(1);
+    expect(merged.warriors[0].wins).toBe(5);
+    expect(merged.warriors[1].diedWith).toEqual([0, 5]);
+  });
+
+  it('rejects empty input', () => {
+    expect(() => mergeBattleResults([])).toThrow(/No battle results/);
+  });
+});
+
+describe('ParallelBattleRunner', () => {
+  let dir: string;
+  let workerScript: string;
+
+  // Worker threads load JavaScript, so compile the sources to CommonJS first
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'pmars-parallel-'));
+    const src = join(__dirname, '../../src');
+    for (const file of readdirSync(src, { recursive: true }) as string[]) {
+      if (!file.endsWith('.ts')) continue;
+      const { outputText } = ts.transpileModule(readFileSync(join(src, file), 'utf-8'), {
+        compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+      });
+      const out = join(dir, file.replace(/\.ts$/, '.js'));
+      mkdirSync(dirname(out), { recursive: true });
+      writeFileSync(out, outputText);
+    }
+    workerScript = join(dir, 'parallel', 'worker.js');
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('validates the worker count', () => {
+    expect(() => new ParallelBattleRunner(options, { workers: 0 })).toThrow(/workers/);
+  });
+
+  it('runs rounds in workers with the same result as a serial battle', async () => {
+    const ws = warriors();
+    const serial = makeSim(ws).runBattle(12);
+    const runner = new ParallelBattleRunner(options, { workers: 3, workerScript });
+    expect(await runner.run(ws, 12)).toEqual(serial);
+  });
+
+  it('rejects when a worker exits without sending a result', async () => {
+    const silent = join(dir, 'silent.js');
+    writeFileSync(silent, '// exits with code 0 and posts nothing\n');
+    const runner = new ParallelBattleRunner(options, { workers: 2, workerScript: silent });
+    await expect(runner.run(warriors(), 4)).rejects.toThrow('Battle worker exited with code 0 before sending a result');
+  });
+
+  it('rejects when a worker fails', async () => {
+    const failing = join(dir, 'failing.js');
+    writeFileSync(failing, "throw new Error('worker broke');\n");
+    const runner = new ParallelBattleRunner(options, { workers: 1, workerScript: failing });
+    await expect(runner.run(warriors(), 2)).rejects.toThrow('worker broke');
+  });
+
+  it('keeps P-space warriors in order in a single worker', async () => {
+    const ws = [makeWarrior('LDP.AB #0, $1\nSTP.B $0, #1\nJMP $0'), makeWarrior('MOV.I $0, $1')];
+    const serial = makeSim(ws).runBattle(6);
+    const runner = new ParallelBattleRunner(options, { workers: 3, workerScript: pathToFileURL(workerScript) });
+    expect(await runner.run(ws, 6)).toEqual(serial);
+  });
+});
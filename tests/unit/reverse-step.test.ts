@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { Simulator } from '../../src/simulator/index';
+import { Assembler } from '../../src/assembler/index';
+import { UndoJournal } from '../../src/simulator/journal';
+import { CircularQueue } from '../../src/utils/circular-queue';
+import { type WarriorData } from '../../src/types';
+
+function makeWarrior(source: string): WarriorData {
+  const asm = new Assembler({ coreSize: 800, maxLength: 100, maxProcesses: 80 });
+  const result = asm.assemble(source);
+  if (!result.success || !result.warrior) throw new Error(`Assembly failed: ${result.messages.map(m => m.text).join(', ')}`);
+  return result.warrior;
+}
+
+const dwarf = () => makeWarrior('ADD.AB #4, $3\nMOV.I $2, @2\nJMP $-2, $0\nDAT.F #0, #0');
+// Exercises SPL, post-increment on both fields, STP and DJN
+const paper = () => makeWarrior('SPL $2\nJMP $-1\nMOV.I }-2, >-2\nSTP.AB #7, #3\nDJN.F $-2, {-3');
+
+function makeSim(depth = 10000): Simulator {
+  const sim = new Simulator({ coreSize: 800, maxCycles: 3000, maxProcesses: 80, minSeparation: 50, seed: 99 });
+  sim.loadWarriors([dwarf(), paper()]);
+  sim.setUndoDepth(depth);
+  return sim;
+}
+
+describe('Simulator.stepBack', () => {
+  it('restores the exact state before each executed instruction', () => {
+    const sim = makeSim();
+    sim.setupRound();
+    const history = [JSON.stringify(sim.snapshot())];
+    for (let i = 0; i < 400; i++) {
+      sim.step();
+      history.push(JSON.stringify(sim.snapshot()));
+    }
+    for (let i = history.length - 2; i >= 0; i--) {
+      expect(sim.stepBack()).toBe(true);
+      expect(JSON.stringify(sim.snapshot())).toBe(history[i]);
+    }
+    expect(sim.stepBack()).toBe(false);
+  });
+
+  it('re-executing after stepping back reproduces the same run', () => {
+    const sim = makeSim();
+    sim.setupRound();
+    for (let i = 0; i < 250; i++) sim.step();
+    const ahead = JSON.stringify(sim.snapshot());
+    for (let i = 0; i < 100; i++) sim.stepBack();
+    for (let i = 0; i < 100; i++) sim.step();
+    expect(JSON.stringify(sim.snapshot())).toBe(ahead);
+  });
+
+  it('undoes warrior death and round-end bookkeeping', () => {
+    const sim = new Simulator({ coreSize: 80, maxCycles: 100, maxProcesses: 80, minSeparation: 10 });
+    sim.loadWarriors([makeWarrior('DAT #0, #0'), makeWarrior('JMP $0')]);
+    sim.setUndoDepth(10);
+    sim.setupRound();
+    const before = sim.snapshot();
+    const result = sim.step();
+    expect(result).toMatchObject({ winnerId: 1, outcome: 'WIN' });
+    expect(sim.getWarriors()[0].alive).toBe(false);
+
+    expect(sim.stepBack()).toBe(true);
+    expect(sim.snapshot()).toEqual(before);
+    expect(sim.getWarriors()[0].alive).toBe(true);
+    expect(sim.getWarriors()[1].score).toEqual(before.warriors[1].score);
+  });
+
+  it('keeps only the configured number of steps', () => {
+    const sim = makeSim(5);
+    sim.setupRound();
+    for (let i = 0; i < 20; i++) sim.step();
+    let undone = 0;
+    while (sim.stepBack()) undone++;
+    expect(undone).toBe(5);
+    expect(sim.canStepBack()).toBe(false);
+  });
+
+  it('is disabled by default and with depth 0', () => {
+    const sim = makeSim(0);
+    sim.setupRound();
+    sim.step();
+    expect(sim.canStepBack()).toBe(false);
+    expect(sim.stepBack()).toBe(false);
+  });
+
+  it('cannot step back past the start of a round', () => {
+    const sim = makeSim();
+    sim.setupRound();
+    sim.step();
+    sim.setupRound();
+    expect(sim.stepBack()).toBe(false);
+  });
+});
+
+describe('UndoJournal', () => {
+  it('rejects invalid depths', () => {
+    expect(() => new UndoJournal(0)).toThrow(/positive integer/);
+    expect(() => new UndoJournal(1.5)).toThrow(/positive integer/);
+  });
+
+  it('drops the oldest entries when full', () => {
+    const journal = new UndoJournal(2);
+    const entry = (n: number) => ({ kind: 'round-end' as const, lastResults: [n], pSpaceLastResults: [], scoreIndices: [] });
+    journal.push(entry(1));
+    journal.push(entry(2));
+    journal.push(entry(3));
+    expect(journal.size).toBe(2);
+    expect(journal.peek()).toEqual(entry(3));
+    expect(journal.pop()).toEqual(entry(3));
+    expect(journal.pop()).toEqual(entry(2));
+    expect(journal.pop()).toBeUndefined();
+    expect(journal.peek()).toBeUndefined();
+  });
+});
+
+describe('CircularQueue undo operations', () => {
+  it('popBack and pushFront reverse push and pop across the wrap point', () => {
+    const q = new CircularQueue(3);
+    q.push(1);
+    q.push(2);
+    expect(q.pop()).toBe(1);
+    q.push(3);
+    q.push(4);
+    expect(q.popBack()).toBe(4);
+    q.pushFront(1);
+    expect(q.toArray()).toEqual([1, 2, 3]);
+  });
+});
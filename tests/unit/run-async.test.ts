@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { Simulator, type RunProgress } from '../../src/simulator/index';
+import { Assembler } from '../../src/assembler/index';
+import { type WarriorData } from '../../src/types';
+
+function makeWarrior(source: string): WarriorData {
+  const asm = new Assembler({ coreSize: 800, maxLength: 100, maxProcesses: 80 });
+  const result = asm.assemble(source);
+  if (!result.success || !result.warrior) throw new Error(`Assembly failed: ${result.messages.map(m => m.text).join(', ')}`);
+  return result.warrior;
+}
+
+function makeSim(): Simulator {
+  const sim = new Simulator({ coreSize: 800, maxCycles: 3000, maxProcesses: 80, minSeparation: 50, seed: 5 });
+  sim.loadWarriors([
+    makeWarrior('ADD.AB #4, $3\nMOV.I $2, @2\nJMP $-2, $0\nDAT.F #0, #0'),
+    makeWarrior('MOV.I $0, $1'),
+  ]);
+  return sim;
+}
+
+describe('Simulator.runAsync', () => {
+  it('produces the same results as run()', async () => {
+    const expected = makeSim().run(4);
+    const { results, aborted } = await makeSim().runAsync(4, { yieldEvery: 1000 });
+    expect(aborted).toBe(false);
+    expect(results).toEqual(expected);
+  });
+
+  it('reports progress at each time slice and round end', async () => {
+    const progress: RunProgress[] = [];
+    await makeSim().runAsync(2, { yieldEvery: 2000, onProgress: p => progress.push(p) });
+    expect(progress.length).toBeGreaterThan(2);
+    expect(progress[0]).toMatchObject({ round: 1, roundsCompleted: 0, totalRounds: 2 });
+    expect(progress[progress.length - 1]).toMatchObject({ round: 2, roundsCompleted: 2 });
+    expect(progress.every(p => p.warriorsLeft >= 1)).toBe(true);
+  });
+
+  it('yields to the event loop between slices', async () => {
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 0);
+    await makeSim().runAsync(2, { yieldEvery: 500 });
+    clearInterval(timer);
+    expect(ticks).toBeGreaterThan(0);
+  });
+
+  it('stops on abort and resumes the interrupted round', async () => {
+    const expected = makeSim().run(3);
+
+    const sim = makeSim();
+    const controller = new AbortController();
+    let slices = 0;
+    const first = await sim.runAsync(3, {
+      yieldEvery: 700,
+      signal: controller.signal,
+      onProgress: () => { if (++slices === 5) controller.abort(); },
+    });
+    expect(first.aborted).toBe(true);
+    expect(first.results.length).toBeLessThan(3);
+
+    const rest = await sim.runAsync(3 - first.results.length, { yieldEvery: 700 });
+    expect(rest.aborted).toBe(false);
+    expect([...first.results, ...rest.results]).toEqual(expected);
+  });
+
+  it('returns immediately when already aborted', async () => {
+    const sim = makeSim();
+    const controller = new AbortController();
+    controller.abort();
+    const { results, aborted } = await sim.runAsync(2, { signal: controller.signal });
+    expect(aborted).toBe(true);
+    expect(results).toEqual([]);
+  });
+
+  it('rejects invalid slice sizes', async () => {
+    await expect(makeSim().runAsync(1, { yieldEvery: 0 })).rejects.toThrow(/yieldEvery/);
+  });
+});
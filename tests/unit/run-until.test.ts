@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { Simulator } from '../../src/simulator/index';
+import { Assembler } from '../../src/assembler/index';
+import { type WarriorData, Opcode } from '../../src/types';
+import { decodeOpcode } from '../../src/constants';
+
+function makeWarrior(source: string): WarriorData {
+  const asm = new Assembler({ coreSize: 800, maxLength: 100, maxProcesses: 200 });
+  const result = asm.assemble(source);
+  if (!result.success || !result.warrior) throw new Error(`Assembly failed: ${result.messages.map(m => m.text).join(', ')}`);
+  return result.warrior;
+}
+
+function makeSim(sources: string[], maxCycles = 1000): Simulator {
+  const sim = new Simulator({ coreSize: 800, maxCycles, maxProcesses: 200, minSeparation: 50, seed: 9 });
+  sim.loadWarriors(sources.map(makeWarrior));
+  sim.setupRound();
+  return sim;
+}
+
+describe('Simulator.stepCycle', () => {
+  it('gives every living warrior one turn', () => {
+    const sim = makeSim(['JMP $0', 'JMP $0', 'JMP $0']);
+    expect(sim.stepCycle()).toBeNull();
+    expect(sim.getCycle()).toBe(1);
+    expect(sim.getCyclesStarted()).toBe(1);
+    sim.stepCycle();
+    expect(sim.getCycle()).toBe(2);
+  });
+
+  it('finishes a partially executed cycle', () => {
+    const sim = makeSim(['JMP $0', 'JMP $0', 'JMP $0']);
+    sim.step();
+    expect(sim.getCyclesStarted()).toBe(1);
+    sim.stepCycle();
+    expect(sim.getCycle()).toBe(1);
+    expect(sim.getCyclesStarted()).toBe(1);
+  });
+
+  it('returns the round result when the round ends', () => {
+    const sim = makeSim(['DAT #0, #0', 'JMP $0']);
+    expect(sim.stepCycle()).toMatchObject({ winnerId: 1, outcome: 'WIN' });
+  });
+});
+
+describe('Simulator.runCycles', () => {
+  it('advances whole cycles', () => {
+    const sim = makeSim(['JMP $0', 'MOV $0, $1']);
+    expect(sim.runCycles(25)).toBeNull();
+    expect(sim.getCycle()).toBe(25);
+  });
+
+  it('stops at the end of the round', () => {
+    const sim = makeSim(['JMP $0', 'JMP $0'], 10);
+    expect(sim.runCycles(50)).toMatchObject({ winnerId: null, outcome: 'TIE' });
+    expect(sim.getCycle()).toBe(10);
+  });
+
+  it('rejects invalid counts', () => {
+    const sim = makeSim(['JMP $0', 'JMP $0']);
+    expect(() => sim.runCycles(-1)).toThrow(/non-negative/);
+    expect(() => sim.runCycles(1.5)).toThrow(/non-negative/);
+  });
+});
+
+describe('Simulator.runUntil', () => {
+  it('stops the first time the predicate holds', () => {
+    const sim = makeSim(['JMP $0', 'SPL $0\nJMP $-1']);
+    const result = sim.runUntil(view => view.warriors[1].tasks > 100);
+    expect(result.matched).toBe(true);
+    expect(result.roundResult).toBeNull();
+    expect(sim.getWarriors()[1].tasks).toBe(101);
+  });
+
+  it('exposes cycle, warriors and core through the view', () => {
+    const sim = makeSim(['MOV.I $0, $1', 'JMP $0']);
+    const pos = sim.getWarriors()[0].position;
+    const result = sim.runUntil(view => view.cycle === 3);
+    expect(result).toEqual({ matched: true, steps: 6, roundResult: null });
+    sim.runUntil(view => {
+      expect(view.round).toBe(1);
+      expect(view.warriorsLeft).toBe(2);
+      expect(view.warriors[0].alive).toBe(true);
+      expect(view.warriors[0].processes()).toEqual([pos + 4]);
+      expect(decodeOpcode(view.read(pos + 4).opcode).opcode).toBe(Opcode.MOV);
+      return true;
+    });
+  });
+
+  it('reports the result of a round that has already ended without scoring it again', () => {
+    const sim = makeSim(['DAT #0, #0', 'JMP $0']);
+    const ended = sim.step();
+    expect(ended).toMatchObject({ winnerId: 1, outcome: 'WIN' });
+    const result = sim.runUntil(() => false);
+    expect(result).toEqual({ matched: false, steps: 0, roundResult: ended });
+    expect(sim.step()).toEqual(ended);
+    expect(sim.stepCycle()).toEqual(ended);
+    expect(sim.stepTraced()).toEqual({ trace: null, roundResult: ended });
+    expect(sim.getWarriors().map(w => w.score)).toEqual([[0, 0, 1], [1, 0, 0]]);
+  });
+
+  it('refuses to step when no round has been set up', () => {
+    const sim = new Simulator({ coreSize: 800 });
+    sim.loadWarriors([makeWarrior('JMP $0'), makeWarrior('JMP $0')]);
+    expect(() => sim.runUntil(() => true)).toThrow('No round in progress. Call setupRound() first.');
+    expect(() => sim.step()).toThrow('No round in progress. Call setupRound() first.');
+    sim.setupRound();
+    sim.seekRound({ round: 2, seed: 1 });
+    expect(() => sim.stepCycle()).toThrow('No round in progress. Call setupRound() first.');
+  });
+
+  it('honours maxSteps', () => {
+    const sim = makeSim(['JMP $0', 'JMP $0']);
+    expect(sim.runUntil(() => false, 7)).toEqual({ matched: false, steps: 7, roundResult: null });
+  });
+
+  it('reflects reloaded warriors', () => {
+    const sim = makeSim(['JMP $0', 'JMP $0']);
+    sim.runUntil(() => true);
+    sim.loadWarriors([makeWarrior(';name Other\nJMP $0'), makeWarrior('JMP $0')]);
+    sim.setupRound();
+    sim.runUntil(view => {
+      expect(view.warriors[0].name).toBe('Other');
+      return true;
+    });
+  });
+});
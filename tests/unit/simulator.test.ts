@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { Simulator } from '../../src/simulator/index';
 import { Assembler } from '../../src/assembler/index';
 import { type WarriorData, Opcode, Modifier, AddressMode } from '../../src/types';
@@ -133,3 +133,51 @@ describe('Simulator', () => {
     expect(dat.bValue).toBe(5);
   });
 });
+
+describe('Simulator fast path', () => {
+  const dwarf = 'ADD.AB #4, $3\nMOV.I $2, @2\nJMP $-2, $0\nDAT.F #0, #0';
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function spyOnBookkeeping() {
+    const proto = Simulator.prototype as unknown as Record<'recordWrite' | 'recordOperandReads', () => void>;
+    return [vi.spyOn(proto, 'recordWrite'), vi.spyOn(proto, 'recordOperandReads'), vi.spyOn(Simulator.prototype, 'getCycle')];
+  }
+
+  it('skips per-instruction bookkeeping without breakpoints, tracing or undo', () => {
+    const spies = spyOnBookkeeping();
+    const sim = new Simulator({ coreSize: 800, maxCycles: 2000, minSeparation: 50, seed: 3 });
+    sim.loadWarriors([makeWarrior(dwarf), makeWarrior('MOV $0, $1')]);
+    sim.run(3);
+    for (const spy of spies) expect(spy).not.toHaveBeenCalled();
+  });
+
+  it('returns to the fast path when instrumentation is removed', () => {
+    const sim = new Simulator({ coreSize: 800, maxCycles: 2000, minSeparation: 50, seed: 3 });
+    sim.loadWarriors([makeWarrior(dwarf), makeWarrior('MOV $0, $1')]);
+    sim.setUndoDepth(10);
+    const id = sim.addBreakpoint({ type: 'opcode', opcode: Opcode.DAT });
+    sim.setupRound();
+    sim.stepTraced();
+    sim.removeBreakpoint(id);
+    sim.setUndoDepth(0);
+    const spies = spyOnBookkeeping();
+    sim.run(1);
+    for (const spy of spies) expect(spy).not.toHaveBeenCalled();
+  });
+
+  it('gives the same results with and without instrumentation', () => {
+    const make = () => {
+      const sim = new Simulator({ coreSize: 800, maxCycles: 2000, minSeparation: 50, seed: 5 });
+      sim.loadWarriors([makeWarrior(dwarf), makeWarrior('SPL $0\nMOV $0, $1'), makeWarrior('MOV $0, $1')]);
+      return sim;
+    };
+    const plain = make().runBattle(6);
+    const instrumented = make();
+    instrumented.setUndoDepth(5);
+    instrumented.addBreakpoint({ type: 'taskCount', warriorId: 0, threshold: 100, direction: 'above' });
+    expect(instrumented.runBattle(6)).toEqual(plain);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { Simulator } from '../../src/simulator/index';
+import { Assembler } from '../../src/assembler/index';
+import { type WarriorData } from '../../src/types';
+
+function makeWarrior(source: string): WarriorData {
+  const asm = new Assembler({ coreSize: 800, maxLength: 100, maxProcesses: 80 });
+  const result = asm.assemble(source);
+  if (!result.success || !result.warrior) throw new Error(`Assembly failed: ${result.messages.map(m => m.text).join(', ')}`);
+  return result.warrior;
+}
+
+function makeSim(sources: string[], maxCycles = 500): Simulator {
+  const sim = new Simulator({ coreSize: 800, maxCycles, maxProcesses: 80, minSeparation: 50, seed: 4 });
+  sim.loadWarriors(sources.map(makeWarrior));
+  return sim;
+}
+
+describe('single-warrior runs', () => {
+  it('runs a lone survivor for maxCycles', () => {
+    const sim = makeSim(['MOV.I $0, $1']);
+    const result = sim.runRound();
+    expect(result).toEqual({ winnerId: 0, outcome: 'WIN', survived: [true], deathCycles: [null] });
+    expect(sim.getCyclesStarted()).toBe(500);
+    expect(sim.getWarriors()[0].position).toBe(0);
+  });
+
+  it('reports the cycle a lone warrior dies in', () => {
+    // Executes NOP, NOP, then runs into the DAT
+    const sim = makeSim(['NOP $0\nNOP $0\nDAT #0, #0']);
+    const result = sim.runRound();
+    expect(result).toEqual({ winnerId: null, outcome: 'LOSS', survived: [false], deathCycles: [2] });
+    expect(sim.getCyclesStarted()).toBe(3);
+  });
+
+  it('can be stepped until the warrior dies', () => {
+    const sim = makeSim(['JMP $1\nDAT #0, #0']);
+    sim.setupRound();
+    expect(sim.step()).toBeNull();
+    expect(sim.step()).toMatchObject({ outcome: 'LOSS', deathCycles: [1] });
+  });
+
+  it('keeps survivals and deaths apart in the score', () => {
+    const sim = makeSim(['JMP $0']);
+    sim.run(2);
+    const dies = makeSim(['DAT #0, #0']);
+    dies.run(3);
+    expect(sim.getWarriors()[0].score).toEqual([2, 0]);
+    expect(dies.getWarriors()[0].score).toEqual([0, 3]);
+  });
+
+  it('summarizes a battle', () => {
+    const battle = makeSim(['DAT #0, #0']).runBattle(3);
+    expect(battle.warriors[0]).toMatchObject({ wins: 0, ties: 0, losses: 3, survivedWith: [0], diedWith: [3], firstLossRound: 1 });
+    expect(battle.roundCycles).toEqual([1, 1, 1]);
+  });
+
+  it('undoes a death', () => {
+    const sim = makeSim(['DAT #0, #0']);
+    sim.setUndoDepth(10);
+    sim.setupRound();
+    sim.step();
+    expect(sim.stepBack()).toBe(true);
+    expect(sim.getWarriors()[0].alive).toBe(true);
+    expect(sim.getWarriors()[0].deathCycle).toBeNull();
+    expect(sim.getWarriors()[0].score).toEqual([0, 0]);
+  });
+});
+
+describe('RoundResult death cycles', () => {
+  it('records when each warrior died in a multi-warrior round', () => {
+    const sim = makeSim(['JMP $0', 'NOP $0\nDAT #0, #0', 'JMP $0']);
+    const result = sim.runRound();
+    expect(result.survived).toEqual([true, false, true]);
+    expect(result.deathCycles).toEqual([null, 1, null]);
+  });
+
+  it('survives a snapshot round trip', () => {
+    const sim = makeSim(['JMP $0', 'DAT #0, #0', 'JMP $0']);
+    sim.setupRound();
+    sim.stepCycle();
+    const copy = new Simulator();
+    copy.restore(JSON.parse(JSON.stringify(sim.snapshot())));
+    expect(copy.getWarriors()[1].deathCycle).toBe(0);
+  });
+});
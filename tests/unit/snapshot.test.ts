@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { Simulator } from '../../src/simulator/index';
+import { Assembler } from '../../src/assembler/index';
+import { SNAPSHOT_VERSION } from '../../src/simulator/snapshot';
+import { CircularQueue } from '../../src/utils/circular-queue';
+import { PSpace } from '../../src/simulator/pspace';
+import { type WarriorData } from '../../src/types';
+
+function makeWarrior(source: string): WarriorData {
+  const asm = new Assembler({ coreSize: 800, maxLength: 100, maxProcesses: 80 });
+  const result = asm.assemble(source);
+  if (!result.success || !result.warrior) throw new Error(`Assembly failed: ${result.messages.map(m => m.text).join(', ')}`);
+  return result.warrior;
+}
+
+const dwarf = () => makeWarrior('ADD.AB #4, $3\nMOV.I $2, @2\nJMP $-2, $0\nDAT.F #0, #0');
+const paper = () => makeWarrior('SPL $2\nJMP $-1\nMOV.I }-2, >-2\nSTP.AB #7, #3\nJMP $-2');
+
+function makeSim(): Simulator {
+  const sim = new Simulator({ coreSize: 800, maxCycles: 2000, maxProcesses: 80, minSeparation: 50, seed: 1234 });
+  sim.loadWarriors([dwarf(), paper()]);
+  return sim;
+}
+
+describe('Simulator snapshot/restore', () => {
+  it('produces JSON-safe data with a version field', () => {
+    const sim = makeSim();
+    sim.setupRound();
+    for (let i = 0; i < 50; i++) sim.step();
+    const snap = sim.snapshot();
+    expect(snap.version).toBe(SNAPSHOT_VERSION);
+    expect(JSON.parse(JSON.stringify(snap))).toEqual(snap);
+    expect(snap.core.length).toBe(800);
+    expect(snap.warriors[0].processQueue.length).toBe(snap.warriors[0].tasks);
+  });
+
+  it('resumes a round mid-way in another simulator with identical results', () => {
+    const original = makeSim();
+    original.setupRound();
+    for (let i = 0; i < 301; i++) original.step();
+    const snap = JSON.parse(JSON.stringify(original.snapshot()));
+
+    const resumed = new Simulator();
+    resumed.restore(snap);
+    expect(resumed.snapshot()).toEqual(original.snapshot());
+
+    let a = null;
+    let b = null;
+    while (a === null) a = original.step();
+    while (b === null) b = resumed.step();
+    expect(b).toEqual(a);
+    expect(resumed.snapshot()).toEqual(original.snapshot());
+  });
+
+  it('continues later rounds with the same seed and rotation', () => {
+    const original = makeSim();
+    original.run(2);
+    const resumed = new Simulator();
+    resumed.restore(original.snapshot());
+    expect(resumed.run(3)).toEqual(original.run(3));
+  });
+
+  it('carries the round status across a round end', () => {
+    const duel = () => {
+      const sim = new Simulator({ coreSize: 800, maxCycles: 2000, maxProcesses: 80, minSeparation: 50, seed: 1234 });
+      sim.loadWarriors([makeWarrior('JMP $0'), makeWarrior('DAT $0, $0')]);
+      sim.setupRound();
+      return sim;
+    };
+
+    const ended = duel();
+    const win = ended.step() ?? ended.step();
+    expect(win).toMatchObject({ outcome: 'WIN', winnerId: 0 });
+    const afterEnd = new Simulator();
+    afterEnd.restore(JSON.parse(JSON.stringify(ended.snapshot())));
+    expect(afterEnd.step()).toEqual(ended.step());
+
+    // Stopped on the killing instruction, before the round was scored
+    const stopped = duel();
+    stopped.addBreakpoint({ type: 'execute', address: 0, relativeTo: 1 });
+    expect(stopped.runUntilBreak().hit).not.toBeNull();
+    const pending = new Simulator();
+    pending.restore(JSON.parse(JSON.stringify(stopped.snapshot())));
+    const scored = pending.step();
+    expect(scored).toEqual(stopped.step());
+    expect(scored).toMatchObject({ outcome: 'WIN', winnerId: 0 });
+    expect(pending.snapshot().warriors.map(w => w.score)).toEqual(stopped.snapshot().warriors.map(w => w.score));
+  });
+
+  it('restores P-space contents', () => {
+    const sim = makeSim();
+    sim.setupRound();
+    for (let i = 0; i < 200; i++) sim.step();
+    const snap = sim.snapshot();
+    expect(snap.pSpaces[1].values[3]).toBe(7);
+    const restored = new Simulator();
+    restored.restore(snap);
+    expect(restored.snapshot().pSpaces[1].values[3]).toBe(7);
+  });
+
+  it('snapshot is detached from live state', () => {
+    const sim = makeSim();
+    sim.setupRound();
+    const snap = sim.snapshot();
+    const before = JSON.stringify(snap);
+    for (let i = 0; i < 20; i++) sim.step();
+    expect(JSON.stringify(snap)).toBe(before);
+  });
+
+  it('rejects unknown versions and inconsistent snapshots', () => {
+    const sim = makeSim();
+    sim.setupRound();
+    const snap = sim.snapshot();
+    expect(() => new Simulator().restore({ ...snap, version: 999 })).toThrow(/version/);
+    // Version 1 snapshots lack the cycle counters and death cycles
+    expect(() => new Simulator().restore({ ...snap, version: 1 })).toThrow(`Unsupported snapshot version 1 (expected ${SNAPSHOT_VERSION})`);
+    expect(() => new Simulator().restore({ ...snap, warriors: snap.warriors.slice(1) })).toThrow(/counts/);
+    expect(() => new Simulator().restore({ ...snap, core: snap.core.slice(1) })).toThrow(/cells/);
+    expect(() => new Simulator().restore({ ...snap, roundNum: 0 })).toThrow(/active round/);
+  });
+
+  it('throws when snapshotting before loadWarriors', () => {
+    expect(() => new Simulator().snapshot()).toThrow(/not initialized/);
+  });
+});
+
+describe('snapshot helpers', () => {
+  it('CircularQueue.load replaces contents head first', () => {
+    const q = new CircularQueue(4);
+    q.push(9);
+    q.load([1, 2, 3]);
+    expect(q.toArray()).toEqual([1, 2, 3]);
+    expect(() => q.load([1, 2, 3, 4, 5])).toThrow(/capacity/);
+  });
+
+  it('PSpace.load and toArray round-trip', () => {
+    const ps = new PSpace(4, 80);
+    ps.load([0, 5, 6, 7]);
+    expect(ps.get(2)).toBe(6);
+    expect(ps.toArray()).toEqual([0, 5, 6, 7]);
+    expect(() => ps.load([1])).toThrow(/size mismatch/);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { Assembler } from '../../src/assembler/index';
+
+const asm = () => new Assembler({ coreSize: 8000 });
+
+describe('AssembleResult.sourceMap', () => {
+  it('maps each instruction to its line and column', () => {
+    const result = asm().assemble([
+      ';name test',
+      '',
+      'start  mov.i $0, $1',
+      '       add #4, start',
+      '   jmp start',
+    ].join('\n'));
+    expect(result.sourceMap).toEqual([
+      { line: 3, column: 1 },
+      { line: 4, column: 8 },
+      { line: 5, column: 4 },
+    ]);
+  });
+
+  it('records FOR iterations and counters', () => {
+    const result = asm().assemble([
+      'i FOR 2',
+      '  dat #i, #0',
+      '  mov 0, 1',
+      'ROF',
+      'jmp 0',
+    ].join('\n'));
+    expect(result.sourceMap).toEqual([
+      { line: 2, column: 3, forIterations: [{ counter: 'I', iteration: 1 }] },
+      { line: 3, column: 3, forIterations: [{ counter: 'I', iteration: 1 }] },
+      { line: 2, column: 3, forIterations: [{ counter: 'I', iteration: 2 }] },
+      { line: 3, column: 3, forIterations: [{ counter: 'I', iteration: 2 }] },
+      { line: 5, column: 1 },
+    ]);
+  });
+
+  it('records nested FOR iterations outermost first', () => {
+    const result = asm().assemble([
+      'FOR 2',
+      'FOR 2',
+      'dat 0, 0',
+      'ROF',
+      'ROF',
+    ].join('\n'));
+    expect(result.sourceMap.map(s => s.forIterations)).toEqual([
+      [{ counter: null, iteration: 1 }, { counter: null, iteration: 1 }],
+      [{ counter: null, iteration: 1 }, { counter: null, iteration: 2 }],
+      [{ counter: null, iteration: 2 }, { counter: null, iteration: 1 }],
+      [{ counter: null, iteration: 2 }, { counter: null, iteration: 2 }],
+    ]);
+    expect(result.sourceMap.every(s => s.line === 3)).toBe(true);
+  });
+
+  it('maps continuation lines to their physical source lines', () => {
+    const result = asm().assemble('mov 0, \\\n    1\n  jmp 0');
+    expect(result.sourceMap).toEqual([
+      { line: 1, column: 1 },
+      { line: 3, column: 3 },
+    ]);
+    const failed = asm().assemble('mov 0, \\\n    1\nEQU 4');
+    expect(failed.messages.find(m => m.type === 'ERROR')?.line).toBe(3);
+  });
+
+  it('is empty when assembly fails', () => {
+    expect(asm().assemble('bogus 1, 2').sourceMap).toEqual([]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { Assembler } from '../../src/assembler/index';
+
+const asm = () => new Assembler({ coreSize: 8000 });
+
+describe('AssembleResult.symbols', () => {
+  it('lists labels with their instruction offsets', () => {
+    const result = asm().assemble([
+      'step  EQU 5',
+      'start add #step, bptr',
+      '      mov.i bomb, @bptr',
+      'scan  jmp start',
+      'bptr  dat 0, 0',
+      'bomb  dat 0, 0',
+    ].join('\n'));
+    expect(result.symbols.labels).toEqual([
+      { name: 'START', offset: 0, line: 2 },
+      { name: 'SCAN', offset: 2, line: 4 },
+      { name: 'BPTR', offset: 3, line: 5 },
+      { name: 'BOMB', offset: 4, line: 6 },
+    ]);
+  });
+
+  it('lists EQUs with raw text and numeric values', () => {
+    const result = asm().assemble([
+      'step  EQU 5',
+      'twice EQU step*2',
+      'far   EQU CORESIZE/2',
+      'bomb  EQU <2667',
+      'top   EQU here+1',
+      'here  dat 0, 0',
+    ].join('\n'));
+    expect(result.symbols.equs).toEqual([
+      { name: 'STEP', text: '5', value: 5, line: 1 },
+      { name: 'TWICE', text: 'step * 2', value: 10, line: 2 },
+      { name: 'FAR', text: 'CORESIZE / 2', value: 4000, line: 3 },
+      { name: 'BOMB', text: '< 2667', value: null, line: 4 },
+      { name: 'TOP', text: 'here + 1', value: 1, line: 5 },
+    ]);
+  });
+
+  it('includes every line of a multi-line EQU', () => {
+    const result = asm().assemble('pair EQU mov 0, 1\n     EQU jmp -1\njmp 0');
+    expect(result.symbols.equs).toEqual([
+      { name: 'PAIR', text: 'mov 0 , 1', lines: ['mov 0 , 1', 'jmp - 1'], value: null, line: 1 },
+    ]);
+  });
+
+  it('lists FOR counters with their counts', () => {
+    const result = asm().assemble('n EQU 3\ni FOR n\ndat #i, #0\nROF\nFOR 2\nnop\nROF');
+    expect(result.symbols.forCounters).toEqual([{ name: 'I', count: 3, line: 2 }]);
+  });
+
+  it('reports ORG, END and PIN values', () => {
+    const result = asm().assemble('ORG go\nPIN 7\ndat 0, 0\ngo jmp 0\nEND go');
+    expect(result.symbols).toMatchObject({ org: 1, end: 1, pin: 7 });
+    const plain = asm().assemble('jmp 0');
+    expect(plain.symbols).toMatchObject({ org: null, end: null, pin: null });
+  });
+
+  it('is available when assembly fails', () => {
+    const result = new Assembler({ coreSize: 8000, maxLength: 1 }).assemble('top dat 0, 0\nnext dat 0, 0');
+    expect(result.success).toBe(false);
+    expect(result.symbols.labels).toEqual([{ name: 'TOP', offset: 0, line: 1 }, { name: 'NEXT', offset: 1, line: 2 }]);
+  });
+});
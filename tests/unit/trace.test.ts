@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { Simulator } from '../../src/simulator/index';
+import { Assembler } from '../../src/assembler/index';
+import { type WarriorData, Opcode, Modifier, AddressMode } from '../../src/types';
+import { encodeOpcode } from '../../src/constants';
+
+const CS = 800;
+
+function makeWarrior(source: string): WarriorData {
+  const asm = new Assembler({ coreSize: CS, maxLength: 100, maxProcesses: 80 });
+  const result = asm.assemble(source);
+  if (!result.success || !result.warrior) throw new Error(`Assembly failed: ${result.messages.map(m => m.text).join(', ')}`);
+  return result.warrior;
+}
+
+function makeSim(first: string, second = 'JMP $0'): Simulator {
+  const sim = new Simulator({ coreSize: CS, maxCycles: 1000, maxProcesses: 80, minSeparation: 50, seed: 3 });
+  sim.loadWarriors([makeWarrior(first), makeWarrior(second)]);
+  sim.setupRound();
+  return sim;
+}
+
+describe('Simulator.stepTraced', () => {
+  it('records the decoded instruction, operands and register values', () => {
+    const sim = makeSim('ADD.AB #4, $3\nMOV.I $2, @2\nJMP $-2, $0\nDAT.F #0, #0');
+    const pos = sim.getWarriors()[0].position;
+    const { trace, roundResult } = sim.stepTraced();
+    expect(roundResult).toBeNull();
+    expect(trace).toMatchObject({
+      cycle: 0,
+      warriorId: 0,
+      pc: pos,
+      instruction: { opcode: Opcode.ADD, modifier: Modifier.AB, aMode: AddressMode.IMMEDIATE, bMode: AddressMode.DIRECT, aValue: 4, bValue: 3 },
+      addrA: pos,
+      addrB: pos + 3,
+      raddrB: pos + 3,
+      aRegister: { aValue: 4, bValue: 3 },
+      bRegister: { aValue: 0, bValue: 0 },
+    });
+    expect(trace!.writes).toEqual([{
+      address: pos + 3,
+      before: { opcode: encodeOpcode(Opcode.DAT, Modifier.F), aMode: AddressMode.IMMEDIATE, bMode: AddressMode.IMMEDIATE, aValue: 0, bValue: 0 },
+      after: { opcode: encodeOpcode(Opcode.DAT, Modifier.F), aMode: AddressMode.IMMEDIATE, bMode: AddressMode.IMMEDIATE, aValue: 0, bValue: 4 },
+    }]);
+    expect(trace!.process).toEqual({ queued: [pos + 1], split: false, killed: false, warriorDied: false, tasksBefore: 1, tasksAfter: 1 });
+  });
+
+  it('includes increment side effects and the final write', () => {
+    const sim = makeSim('MOV.I $0, }1\nDAT #3, #0');
+    const pos = sim.getWarriors()[0].position;
+    const { trace } = sim.stepTraced();
+    expect(trace!.addrB).toBe(pos + 4);
+    expect(trace!.writes.map(w => w.address)).toEqual([pos + 1, pos + 4]);
+    expect(trace!.writes[0].before.aValue).toBe(3);
+    expect(trace!.writes[0].after.aValue).toBe(4);
+    expect(trace!.writes[1].after.opcode).toBe(encodeOpcode(Opcode.MOV, Modifier.I));
+  });
+
+  it('reports splits', () => {
+    const sim = makeSim('SPL $2\nDAT #0\nJMP $0');
+    const pos = sim.getWarriors()[0].position;
+    const { trace } = sim.stepTraced();
+    expect(trace!.process).toMatchObject({ queued: [pos + 1, pos + 2], split: true, tasksBefore: 1, tasksAfter: 2 });
+  });
+
+  it('reports killed processes and warrior death', () => {
+    const sim = makeSim('DAT #0, #0');
+    const { trace, roundResult } = sim.stepTraced();
+    expect(trace!.process).toEqual({ queued: [], split: false, killed: true, warriorDied: true, tasksBefore: 1, tasksAfter: 0 });
+    expect(roundResult).toMatchObject({ winnerId: 1, outcome: 'WIN' });
+  });
+
+  it('records P-space writes', () => {
+    const sim = makeSim('STP.AB #9, #5');
+    const { trace } = sim.stepTraced();
+    expect(trace!.pSpaceWrites).toEqual([{ pSpaceIndex: 0, index: 5, before: 0, after: 9 }]);
+  });
+
+  it('returns no trace once the round is over', () => {
+    const sim = makeSim('DAT #0, #0');
+    sim.stepTraced();
+    expect(sim.stepTraced().trace).toBeNull();
+  });
+
+  it('matches untraced execution', () => {
+    const src = 'SPL $2\nJMP $-1\nMOV.I }-2, >-2\nDJN.F $-2, {-3';
+    const plain = makeSim(src, 'MOV $0, $1');
+    const traced = makeSim(src, 'MOV $0, $1');
+    for (let i = 0; i < 300; i++) {
+      plain.step();
+      traced.stepTraced();
+    }
+    expect(traced.snapshot()).toEqual(plain.snapshot());
+  });
+});